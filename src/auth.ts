@@ -0,0 +1,362 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import { execFile } from 'child_process';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { Dockerfile } from './dockerfile';
+import { RegistryAuthError } from './errors';
+import {
+	defaultRegistry,
+	legacyRegistries,
+	parseImageReference,
+} from './reference';
+
+/**
+ * RegistryAuth: The credentials of a registry, in the format of the docker
+ * daemon's AuthConfig
+ */
+export interface RegistryAuth {
+	username?: string;
+	password?: string;
+	// base64 of `username:password`, as stored in docker config files
+	auth?: string;
+	email?: string;
+	serveraddress?: string;
+	// Refresh token used instead of a password, e.g. by Azure registries
+	identitytoken?: string;
+	// Bearer token sent to the registry as is
+	registrytoken?: string;
+}
+
+/**
+ * RegistryConfig: Credentials by registry server address, as sent to the
+ * docker daemon in the X-Registry-Config header of a build
+ */
+export interface RegistryConfig {
+	[serverAddress: string]: RegistryAuth;
+}
+
+/**
+ * CredentialHelper: Look up the credentials of a registry, resolving to
+ * undefined if there are none
+ */
+export type CredentialHelper = (
+	registry: string,
+) => PromiseLike<RegistryAuth | undefined>;
+
+/**
+ * RegistryAuthOptions: Where the builder finds the credentials of the
+ * registries that builds pull images from. For each registry, the explicit
+ * credentials are used first, then the credential helper and then the
+ * docker config file.
+ */
+export interface RegistryAuthOptions {
+	// Credentials by registry, e.g. `{ 'myregistry:5000': { username, password } }`,
+	// with `docker.io` for the Docker Hub
+	registries?: { [registry: string]: RegistryAuth };
+	credentialHelper?: CredentialHelper;
+	/**
+	 * Read credentials from a docker CLI config file: its path, or true for
+	 * `$DOCKER_CONFIG/config.json` (`~/.docker/config.json` by default). The
+	 * `credHelpers` and `credsStore` credential helpers it names are run.
+	 */
+	dockerConfig?: string | boolean;
+}
+
+/**
+ * DockerConfig: The credentials of a docker CLI config file
+ */
+export interface DockerConfig {
+	// Stored credentials by registry
+	auths: { [registry: string]: RegistryAuth };
+	// Names of the credential helpers of registries, e.g. 'ecr-login'
+	credHelpers: { [registry: string]: string };
+	// Name of the credential helper of the other registries, e.g. 'pass'
+	credsStore?: string;
+}
+
+// The server address of the Docker Hub in config files and in the daemon
+const dockerHubAddress = 'https://index.docker.io/v1/';
+
+/**
+ * Normalise the server address of a registry, as used in docker config
+ * files, e.g. `https://index.docker.io/v1/` or `https://myregistry:5000`,
+ * to its host, e.g. `docker.io` or `myregistry:5000`.
+ *
+ * @param address The server address
+ * @returns The registry
+ */
+export const normaliseRegistry = (address: string): string => {
+	const host = address
+		.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '')
+		.replace(/\/.*$/, '')
+		.toLowerCase();
+	return _.includes(legacyRegistries, host) ? defaultRegistry : host;
+};
+
+// The key of the credentials of a registry that the daemon looks up
+const serverAddress = (registry: string): string =>
+	registry === defaultRegistry ? dockerHubAddress : registry;
+
+/**
+ * List the registries of images. Images that are not valid references are
+ * left out, as the daemon reports them.
+ *
+ * @param images The images, e.g. `['alpine', 'myregistry:5000/img:1.0']`
+ * @returns The registries, e.g. `['docker.io', 'myregistry:5000']`
+ */
+export const imageRegistries = (images: string[]): string[] => {
+	const registries: string[] = [];
+	for (const image of images) {
+		try {
+			registries.push(parseImageReference(image).registry);
+		} catch {
+			// Not a valid reference
+		}
+	}
+	return _.uniq(registries);
+};
+
+/**
+ * List the registries of the external images that a Dockerfile is built
+ * FROM.
+ *
+ * @param dockerfile The parsed Dockerfile
+ * @returns The registries, e.g. `['docker.io', 'myregistry:5000']`
+ */
+export const dockerfileRegistries = (dockerfile: Dockerfile): string[] =>
+	imageRegistries(
+		_(dockerfile.stages)
+			.filter(
+				stage => stage.baseStage === undefined && stage.image !== 'scratch',
+			)
+			.map(stage => stage.image)
+			.value(),
+	);
+
+const decodeAuth = (entry: { [key: string]: any }): RegistryAuth => {
+	const auth: RegistryAuth = _.pick(entry, [
+		'username',
+		'password',
+		'email',
+		'identitytoken',
+		'registrytoken',
+	]);
+	if (_.isString(entry.auth) && entry.auth !== '') {
+		const decoded = Buffer.from(entry.auth, 'base64').toString();
+		const colon = decoded.indexOf(':');
+		if (colon >= 0) {
+			auth.username = decoded.slice(0, colon);
+			auth.password = decoded.slice(colon + 1);
+		}
+	}
+	return auth;
+};
+
+/**
+ * Read the credentials of a docker CLI config file. A missing file has no
+ * credentials.
+ *
+ * @param configPath The path of the file; `$DOCKER_CONFIG/config.json`, or
+ * `~/.docker/config.json`, by default
+ * @returns Promise of the credentials, with the registries normalised
+ */
+export const readDockerConfig = (
+	configPath?: string,
+): Bluebird<DockerConfig> => {
+	const file =
+		configPath ||
+		path.join(
+			process.env.DOCKER_CONFIG || path.join(os.homedir(), '.docker'),
+			'config.json',
+		);
+	return Bluebird.resolve(fs.readFile(file, 'utf8'))
+		.catch((error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') {
+				return '{}';
+			}
+			throw error;
+		})
+		.then(content => {
+			let config: { [key: string]: any };
+			try {
+				config = JSON.parse(content);
+			} catch (error) {
+				throw new Error(`Invalid docker config file ${file}: ${error.message}`);
+			}
+			const auths: DockerConfig['auths'] = {};
+			_.forEach(config.auths, (entry, address) => {
+				const auth = decodeAuth(entry);
+				if (!_.isEmpty(auth)) {
+					auths[normaliseRegistry(address)] = auth;
+				}
+			});
+			const result: DockerConfig = {
+				auths,
+				credHelpers: _.mapKeys(config.credHelpers, (_helper, address: string) =>
+					normaliseRegistry(address),
+				),
+			};
+			if (config.credsStore) {
+				result.credsStore = config.credsStore;
+			}
+			return result;
+		});
+};
+
+/**
+ * Create a credential helper that runs a program implementing the docker
+ * credential helper protocol, e.g. `docker-credential-pass`: the server
+ * address is written to the standard input of `<program> get`, which prints
+ * the credentials as JSON.
+ *
+ * @param program The name or path of the program
+ * @returns The credential helper; it rejects with a RegistryAuthError if
+ * the program fails, unless it reports that it has no credentials
+ */
+export const execCredentialHelper = (program: string): CredentialHelper => (
+	registry: string,
+) =>
+	new Bluebird<string>((resolve, reject) => {
+		const child = execFile(program, ['get'], (error, stdout, stderr) => {
+			if (error == null) {
+				resolve(stdout);
+				return;
+			}
+			const output = _.trim(stdout) || _.trim(stderr);
+			if (/credentials not found/i.test(output)) {
+				resolve('');
+			} else {
+				reject(
+					new RegistryAuthError(
+						registry,
+						`${program} failed: ${output || error.message}`,
+					),
+				);
+			}
+		});
+		// The program may exit without reading its input
+		child.stdin.on('error', _.noop);
+		child.stdin.end(serverAddress(registry));
+	}).then((stdout): RegistryAuth | undefined => {
+		if (_.trim(stdout) === '') {
+			return;
+		}
+		let credentials: { Username?: string; Secret?: string };
+		try {
+			credentials = JSON.parse(stdout);
+		} catch {
+			throw new RegistryAuthError(registry, `${program} printed invalid JSON`);
+		}
+		// Helpers store refresh tokens with this username
+		if (credentials.Username === '<token>') {
+			return { identitytoken: credentials.Secret };
+		}
+		return { username: credentials.Username, password: credentials.Secret };
+	});
+
+const lookupCredentials = (
+	registry: string,
+	options: RegistryAuthOptions,
+	config?: DockerConfig,
+): Bluebird<RegistryAuth | undefined> => {
+	const explicit = _.find(
+		options.registries,
+		(_auth, address) => normaliseRegistry(address) === registry,
+	);
+	if (explicit !== undefined) {
+		return Bluebird.resolve(explicit);
+	}
+	return Bluebird.resolve(
+		options.credentialHelper !== undefined
+			? options.credentialHelper(registry)
+			: undefined,
+	).then(auth => {
+		if (auth !== undefined || config === undefined) {
+			return auth;
+		}
+		// As with the docker CLI, the helper of the registry has precedence
+		// over the stored credentials, which have precedence over the store
+		const helper = config.credHelpers[registry];
+		if (helper === undefined && config.auths[registry] !== undefined) {
+			return config.auths[registry];
+		}
+		const store = helper || config.credsStore;
+		if (store !== undefined) {
+			return execCredentialHelper(`docker-credential-${store}`)(registry);
+		}
+	});
+};
+
+/**
+ * Look up the credentials of registries, to be sent to the docker daemon as
+ * the `registryconfig` build option. Only the credentials of the given
+ * registries are included, so that the daemon is not sent credentials it
+ * does not need.
+ *
+ * @param registries The registries, e.g. `['docker.io', 'myregistry:5000']`
+ * @param options Where to find the credentials
+ * @returns Promise of the credentials, by the server address that the
+ * daemon looks them up with; registries without credentials are left out
+ */
+export const resolveRegistryConfig = (
+	registries: string[],
+	options: RegistryAuthOptions,
+): Bluebird<RegistryConfig> => {
+	const { dockerConfig } = options;
+	return Bluebird.resolve(
+		dockerConfig
+			? readDockerConfig(dockerConfig === true ? undefined : dockerConfig)
+			: undefined,
+	)
+		.then(config =>
+			Bluebird.map(_.uniq(registries.map(normaliseRegistry)), registry =>
+				lookupCredentials(registry, options, config).then(
+					auth => [registry, auth] as [string, RegistryAuth | undefined],
+				),
+			),
+		)
+		.then(entries => {
+			const registryConfig: RegistryConfig = {};
+			for (const [registry, auth] of entries) {
+				if (auth !== undefined) {
+					const address = serverAddress(registry);
+					registryConfig[address] = { serveraddress: address, ...auth };
+				}
+			}
+			return registryConfig;
+		});
+};
+
+/**
+ * Look up the credentials of a registry, as resolveRegistryConfig does.
+ *
+ * @param registry The registry, e.g. 'myregistry:5000'
+ * @param options Where to find the credentials
+ * @returns Promise of the credentials, or of undefined if there are none
+ */
+export const resolveRegistryAuth = (
+	registry: string,
+	options: RegistryAuthOptions,
+): Bluebird<RegistryAuth | undefined> =>
+	resolveRegistryConfig([registry], options).then(
+		config => _.values(config)[0],
+	);
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as Dockerode from 'dockerode';
+import * as JSONStream from 'JSONStream';
+import * as _ from 'lodash';
+
+import { RegistryAuthOptions, resolveRegistryAuth } from './auth';
+import { Dockerfile } from './dockerfile';
+import { DockerfileError, MissingBaseImagesError } from './errors';
+import { DaemonMessage, parseDaemonMessage, PullProgressEvent } from './events';
+import { ImageReference, parseImageReference } from './reference';
+
+/**
+ * BaseImage: An external image that a Dockerfile is built FROM
+ */
+export interface BaseImage {
+	// The image, as written in the Dockerfile after ARG substitution
+	name: string;
+	reference: ImageReference;
+	// The `--platform` of the FROM instruction, if any
+	platform?: string;
+	// The indexes of the build stages that are built FROM the image
+	stages: number[];
+	// The line of the first FROM instruction that refers to the image
+	line: number;
+	// The ID of the local image, once the image is checked or pulled
+	imageId?: string;
+	/**
+	 * The reference pinned to the digest of the image in its registry, e.g.
+	 * 'docker.io/library/alpine:3.10@sha256:...', once the image is checked
+	 * or pulled. Undefined for local images that have no registry digest.
+	 */
+	pinned?: string;
+}
+
+export interface BaseImageOptions {
+	/**
+	 * What to do with the base images: 'list' them (the default), 'check'
+	 * that they exist locally, pull the ones that don't exist locally
+	 * ('pull-missing'), or 'pull' all of them
+	 */
+	mode?: 'list' | 'check' | 'pull-missing' | 'pull';
+	// The platform to pull images for, unless set by the FROM instruction
+	platform?: string;
+	// The credentials to pull images from their registries with
+	auth?: RegistryAuthOptions;
+	// Called with the progress of image pulls
+	onProgress?: (image: BaseImage, event: PullProgressEvent) => void;
+}
+
+/**
+ * List the external images that a Dockerfile is built FROM. Stages based
+ * on other stages, and `scratch`, are left out.
+ *
+ * @param dockerfile The parsed Dockerfile
+ * @returns The base images, in the order of the stages that use them
+ * @throws DockerfileError if a base image is not a valid reference
+ */
+export const listBaseImages = (dockerfile: Dockerfile): BaseImage[] => {
+	const images: BaseImage[] = [];
+	for (const stage of dockerfile.stages) {
+		if (stage.baseStage !== undefined || stage.image === 'scratch') {
+			continue;
+		}
+		let reference: ImageReference;
+		try {
+			reference = parseImageReference(stage.image);
+		} catch (error) {
+			throw new DockerfileError(error.message, stage.from.line);
+		}
+		const existing = _.find(
+			images,
+			other =>
+				other.reference.reference === reference.reference &&
+				other.platform === stage.platform,
+		);
+		if (existing !== undefined) {
+			existing.stages.push(stage.index);
+			continue;
+		}
+		const image: BaseImage = {
+			name: stage.image,
+			reference,
+			stages: [stage.index],
+			line: stage.from.line,
+		};
+		if (stage.platform !== undefined) {
+			image.platform = stage.platform;
+		}
+		images.push(image);
+	}
+	return images;
+};
+
+/**
+ * Find the reference of an image pinned to its registry digest
+ */
+const pinnedReference = (
+	reference: ImageReference,
+	repoDigests: string[] = [],
+): string | undefined => {
+	if (reference.digest !== undefined) {
+		return reference.reference;
+	}
+	for (const repoDigest of repoDigests) {
+		let parsed: ImageReference;
+		try {
+			parsed = parseImageReference(repoDigest);
+		} catch {
+			continue;
+		}
+		if (
+			parsed.digest !== undefined &&
+			parsed.registry === reference.registry &&
+			parsed.repository === reference.repository
+		) {
+			return `${reference.reference}@${parsed.digest}`;
+		}
+	}
+};
+
+const inspectImage = (
+	docker: Dockerode,
+	image: BaseImage,
+): Bluebird<Dockerode.ImageInspectInfo | undefined> => {
+	return Bluebird.resolve(
+		docker.getImage(image.reference.reference).inspect(),
+	).catch((error: Error & { statusCode?: number }) => {
+		if (error.statusCode === 404) {
+			return undefined;
+		}
+		throw error;
+	});
+};
+
+const pullImage = (
+	docker: Dockerode,
+	image: BaseImage,
+	options: BaseImageOptions,
+): Bluebird<void> => {
+	const platform = image.platform || options.platform;
+	return Bluebird.resolve(
+		options.auth !== undefined
+			? resolveRegistryAuth(image.reference.registry, options.auth)
+			: undefined,
+	)
+		.then(auth =>
+			docker.pull(image.reference.reference, {
+				...(platform ? { platform } : {}),
+				...(auth !== undefined ? { authconfig: auth } : {}),
+			}),
+		)
+		.then(
+			(stream: NodeJS.ReadableStream) =>
+				new Bluebird<void>((resolve, reject) => {
+					stream
+						.pipe(JSONStream.parse())
+						.on('data', (data: DaemonMessage) => {
+							for (const event of parseDaemonMessage(data)) {
+								if (event.type === 'error') {
+									reject(new Error(event.message));
+								} else if (
+									event.type === 'pull-progress' &&
+									options.onProgress
+								) {
+									options.onProgress(image, event);
+								}
+							}
+						})
+						.on('error', reject)
+						.on('end', resolve);
+					stream.on('error', reject);
+				}),
+		);
+};
+
+/**
+ * Check that base images exist locally, or pull them, recording their
+ * image IDs and pinned references.
+ *
+ * @param docker The docker daemon to use
+ * @param images The base images, as listed by listBaseImages
+ * @param options What to do with the images
+ * @returns Promise of the images, rejected with a MissingBaseImagesError
+ * if images are missing in the 'check' mode, or with the error of a pull
+ */
+export const resolveBaseImages = (
+	docker: Dockerode,
+	images: BaseImage[],
+	options: BaseImageOptions = {},
+): Bluebird<BaseImage[]> => {
+	const mode = options.mode || 'list';
+	if (mode === 'list') {
+		return Bluebird.resolve(images);
+	}
+	const missing: BaseImage[] = [];
+	return Bluebird.each(images, image =>
+		Bluebird.try(() =>
+			mode === 'pull' ? undefined : inspectImage(docker, image),
+		)
+			.then(info => {
+				if (info !== undefined) {
+					return info;
+				}
+				if (mode === 'check') {
+					missing.push(image);
+					return;
+				}
+				return pullImage(docker, image, options).then(() =>
+					inspectImage(docker, image),
+				);
+			})
+			.then(info => {
+				if (info !== undefined) {
+					image.imageId = info.Id;
+					const pinned = pinnedReference(image.reference, info.RepoDigests);
+					if (pinned !== undefined) {
+						image.pinned = pinned;
+					}
+				}
+			}),
+	).then(() => {
+		if (missing.length > 0) {
+			throw new MissingBaseImagesError(
+				missing.map(image => image.reference.reference),
+			);
+		}
+		return images;
+	});
+};
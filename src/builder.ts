@@ -19,15 +19,40 @@ import * as Bluebird from 'bluebird';
 import * as Dockerode from 'dockerode';
 import * as duplexify from 'duplexify';
 import * as es from 'event-stream';
-import * as JSONStream from 'JSONStream';
 import * as _ from 'lodash';
 import * as fs from 'mz/fs';
+import * as os from 'os';
 import * as path from 'path';
 import { Duplex, Readable } from 'stream';
 import * as tar from 'tar-stream';
 
+import * as Auth from './auth';
+import * as BaseImages from './baseimages';
+import * as BuildKit from './buildkit';
+import * as Cache from './cache';
+import * as Cleanup from './cleanup';
+import * as Context from './context';
+import * as Dockerfile from './dockerfile';
+import {
+	BuildCancelledError,
+	BuildError,
+	DaemonRequestError,
+	HookError,
+	PushError,
+} from './errors';
+import * as Events from './events';
+import * as MultiBuild from './multibuild';
+import * as Options from './options';
+import * as Parser from './parser';
 // Import hook definitions
 import * as Plugin from './plugin';
+import * as Push from './push';
+import * as Recording from './recording';
+import { parseImageReference } from './reference';
+import * as Remote from './remote';
+import * as Report from './report';
+import * as Result from './result';
+import * as Secrets from './secrets';
 import * as Utils from './utils';
 
 export type ErrorHandler = (error: Error) => void;
@@ -42,18 +67,27 @@ const emptyHandler: ErrorHandler = () => undefined;
  */
 export default class Builder {
 	private docker: Dockerode;
+	private options: Options.BuilderOptions;
 
-	private constructor(docker: Dockerode) {
+	private constructor(docker: Dockerode, options: Options.BuilderOptions) {
 		this.docker = docker;
+		this.options = options;
 	}
 
-	public static fromDockerode(docker: Dockerode) {
-		return new Builder(docker);
+	public static fromDockerode(
+		docker: Dockerode,
+		options: Options.BuilderOptions = {},
+	) {
+		return new Builder(docker, options);
 	}
 
-	public static fromDockerOpts(dockerOpts: Dockerode.DockerOptions) {
+	public static fromDockerOpts(
+		dockerOpts: Dockerode.DockerOptions,
+		options: Options.BuilderOptions = {},
+	) {
 		return new Builder(
 			new Dockerode(_.merge(dockerOpts, { Promise: Bluebird })),
+			options,
 		);
 	}
 
@@ -63,18 +97,98 @@ export default class Builder {
 	 * as a tar archive to build. The stream can also be read from, and the data
 	 * returned will be the output of the docker daemon build.
 	 *
+	 * @param buildOpts Build options to pass to the docker daemon. Invalid
+	 * options fail the build with a BuildOptionsError, before anything is sent
+	 * to the daemon
+	 * @param options Options handled by the builder, e.g. an abort signal
+	 *
 	 * @returns A bi-directional stream connected to the docker daemon
 	 */
 	public createBuildStream(
-		buildOpts: { [key: string]: any },
+		buildOpts: Options.BuildOptions,
 		hooks: Plugin.BuildHooks = {},
 		handler: ErrorHandler = emptyHandler,
+		options: Options.BuildStreamOptions = {},
+	): NodeJS.ReadWriteStream {
+		return this.startBuild(buildOpts, hooks, handler, options);
+	}
+
+	/**
+	 * Internal function that implements createBuildStream. If a `prepare`
+	 * function is given, it is called with the build options once the
+	 * preBuild hook has run, and resolves with the registries that the build
+	 * pulls from; if it fails, the build fails without the daemon being
+	 * contacted, as it does for invalid build options. If a `replay` source
+	 * is given, its output is used instead of starting a build with the daemon.
+	 *
+	 * @returns A bi-directional stream connected to the docker daemon
+	 */
+	private startBuild(
+		buildOpts: Options.BuildOptions,
+		hooks: Plugin.BuildHooks,
+		handler: ErrorHandler,
+		options: Options.BuildStreamOptions,
+		prepare?: (buildOpts: Options.BuildOptions) => PromiseLike<string[]>,
+		replay?: () => Bluebird<Readable>,
 	): NodeJS.ReadWriteStream {
 		const layers: string[] = [];
 		const fromTags: Utils.FromTagInfo[] = [];
+		// The image ID reported by the daemon in an aux message, if any
+		let auxImageId: string | undefined;
+		// The ID of the built image, once the build has succeeded
+		let imageId: string | undefined;
+		// The daemon's output stream, once the daemon has responded
+		let daemonStream: Readable | undefined;
+		// Set once the outcome of the build is known
+		let finished = false;
+		// The images pushed after the build
+		let pushed: Plugin.PushedImage[] = [];
+		// The build options can be changed by the preBuild hook, which is
+		// given a (shallow) copy of them
+		buildOpts = { ...buildOpts };
+		// The files added to the build context by the preBuild hook
+		const injectedFiles: Context.InjectedFile[] = [];
+		// The calls of the stepStart and stepComplete hooks, which must have
+		// completed before the outcome of the build is reported
+		const stepHooks: Array<Bluebird<void>> = [];
+		const callStepHook = (hook: Plugin.ValidHook, arg: any) => {
+			stepHooks.push(
+				this.callHook(hooks, hook, handler, arg).catch((error: Error) => {
+					// Not waited for, as failBuild waits for the step hooks
+					failBuild(error);
+				}),
+			);
+		};
+		const layerOrigins = Cleanup.trackLayerOrigins();
+		const steps = Report.trackSteps(buildOpts, step =>
+			callStepHook('stepComplete', step),
+		);
+		const cleanupPolicy =
+			options.cleanup || this.options.cleanup || ('none' as 'none');
+		const cacheFrom = options.cacheFrom || [];
+		const secrets = options.secrets || {};
+		// The registries whose credentials are sent to the daemon, if known
+		let registries = options.registries;
+		// The cache sources are pulled by the builder, and used by the daemon,
+		// as are the secret build args
+		const daemonOpts = (): Options.BuildOptions => {
+			const opts: Options.BuildOptions = { ...buildOpts };
+			if (cacheFrom.length > 0) {
+				opts.cachefrom = _.union(buildOpts.cachefrom, cacheFrom);
+			}
+			if (!_.isEmpty(secrets.buildargs)) {
+				opts.buildargs = { ...buildOpts.buildargs, ...secrets.buildargs };
+			}
+			return opts;
+		};
+		// Replaces the values of the secrets, once they are known
+		let redact = (text: string) => text;
 
 		// Create a stream to be passed into the docker daemon
 		const inputStream = es.through<Duplex>();
+		// Buffer the input until the request to the daemon is made, as the
+		// registry credentials are looked up first
+		inputStream.pause();
 
 		// Create a bi-directional stream
 		const dup = duplexify();
@@ -82,46 +196,270 @@ export default class Builder {
 		// Connect the input stream to the rw stream
 		dup.setWritable(inputStream);
 
+		const { signal } = options;
 		let streamError: Error;
+		// Call the buildEnd hook once the step hooks have completed; its errors
+		// are only passed to the handler
+		const endBuild = _.once((success: boolean, error?: Error) =>
+			Bluebird.all(stepHooks)
+				.then(() =>
+					this.callHook(hooks, 'buildEnd', handler, {
+						success,
+						imageId,
+						error,
+						layers,
+						fromTags,
+						pushed: success ? pushed : [],
+						report: steps.report(),
+					} as Plugin.BuildEndInfo),
+				)
+				.catchReturn(undefined),
+		);
+
 		const failBuild = _.once((err: Error) => {
-			streamError = err;
+			finished = true;
+			streamError = Secrets.redactError(err, redact);
+			steps.end(false);
 			dup.destroy(err);
-			return this.callHook(
+			if (signal != null) {
+				signal.removeEventListener('abort', cancel);
+			}
+			return endRecording()
+				.then(() =>
+					this.cleanupLayers(
+						// A cancelled build removes at least the layers it created,
+						// or more if the cleanup policy is stricter
+						err instanceof BuildCancelledError &&
+							options.removeLayersOnCancel &&
+							cleanupPolicy === 'none'
+							? 'dangling'
+							: cleanupPolicy,
+						layers,
+						layerOrigins.origin,
+						// The built image is kept, e.g. when a push fails
+						imageId,
+						reportEvent,
+					),
+				)
+				.then(removed => {
+					if (err instanceof BuildCancelledError) {
+						err.removedLayers = removed;
+					}
+				})
+				.then(() =>
+					this.callHook(
+						hooks,
+						'buildFailure',
+						handler,
+						err,
+						layers,
+						fromTags,
+						steps.report(),
+					),
+				)
+				.finally(() => endBuild(false, err));
+		});
+
+		// Report an event to the buildEvent hook, whose errors fail the build
+		const reportEvent = (event: Events.BuildEvent) => {
+			this.callHook(
 				hooks,
-				'buildFailure',
+				'buildEvent',
 				handler,
-				err,
-				layers,
-				fromTags,
-			);
-		});
+				Secrets.redactValue(event, redact),
+			).catch(failBuild);
+		};
+
+		// Redact a message of the daemon, for the recording. The text of the
+		// BuildKit traces is encoded, so it is redacted once decoded, and the
+		// traces that cannot be decoded are left out
+		const redactMessage = (
+			message: Events.DaemonMessage,
+		): Events.DaemonMessage => {
+			if (message.id !== BuildKit.buildKitTraceId || !_.isString(message.aux)) {
+				return Secrets.redactValue(message, redact);
+			}
+			const redacted = Secrets.redactValue(_.omit(message, 'aux'), redact);
+			try {
+				return { ...redacted, aux: BuildKit.redactTrace(message.aux, redact) };
+			} catch {
+				return redacted;
+			}
+		};
+		const recorder: Recording.Recorder | undefined =
+			options.record !== undefined
+				? Recording.createRecorder(options.record, failBuild)
+				: undefined;
+		const endRecording = (): Bluebird<void> =>
+			recorder !== undefined ? recorder.end() : Bluebird.resolve();
+
+		// The stream of the build context sent to the daemon
+		let requestStream: Duplex | undefined;
+
+		// Stop the build: aborting the request to the daemon makes it stop
+		// building. The upload of the build context is aborted rather than
+		// ended, as the daemon would build a truncated archive
+		const cancel = () => {
+			if (finished) {
+				return;
+			}
+			const error = new BuildCancelledError(_.clone(layers));
+			failBuild(error);
+			inputStream.destroy();
+			if (requestStream !== undefined) {
+				// The request is aborted when the stream piped to it is closed
+				requestStream.destroy();
+			}
+			if (daemonStream !== undefined) {
+				daemonStream.unpipe();
+				daemonStream.destroy();
+			}
+		};
+		if (signal != null) {
+			signal.addEventListener('abort', cancel);
+		}
 
 		inputStream.on('error', failBuild);
 		dup.on('error', failBuild);
 
-		const buildPromise = Bluebird.try(() =>
-			this.docker.buildImage(inputStream, buildOpts),
-		).then((daemonStream: NodeJS.ReadStream) => {
-			return new Bluebird((resolve, reject) => {
-				const outputStream = getDockerDaemonBuildOutputParserStream(
-					daemonStream,
-					layers,
-					fromTags,
-					reject,
-				);
-				outputStream.on('error', (error: Error) => {
-					daemonStream.unpipe();
-					reject(error);
+		const buildPromise = Bluebird.try(() => {
+			if (signal != null && signal.aborted) {
+				throw new BuildCancelledError([]);
+			}
+			Options.validateBuildOptions(buildOpts);
+			for (const ref of options.push || []) {
+				Push.parsePushReference(ref);
+			}
+			for (const ref of cacheFrom) {
+				parseImageReference(ref);
+			}
+			if (replay !== undefined) {
+				return;
+			}
+			const context: Plugin.PreBuildContext = {
+				buildOpts,
+				addFile: (name, contents, mode) => {
+					injectedFiles.push({
+						name,
+						contents: _.isString(contents) ? Buffer.from(contents) : contents,
+						mode,
+					});
+				},
+			};
+			return this.callHook(hooks, 'preBuild', handler, context).then(() =>
+				Options.validateBuildOptions(buildOpts),
+			);
+		})
+			.then(() => {
+				if (prepare === undefined || finished) {
+					return;
+				}
+				return Bluebird.resolve(prepare(buildOpts)).then(found => {
+					if (registries === undefined) {
+						registries = found;
+					}
 				});
-				outputStream.on('end', () =>
-					// The 'end' event was observed to be emitted under error
-					// conditions, hence the test for streamError.
-					streamError ? reject(streamError) : resolve(),
+			})
+			.then(() => Secrets.resolveSecretValues(secrets))
+			.then(values => {
+				redact = Secrets.createRedactor(values);
+				if (replay !== undefined) {
+					return;
+				}
+				return this.pullCacheSources(cacheFrom, reportEvent).then(() =>
+					this.registryConfig(daemonOpts(), registries),
 				);
-				// Connect the output of the docker daemon to the duplex stream
-				dup.setReadable(outputStream);
-			});
-		}); // no .catch() here, but rejection is captured by Bluebird.all() below
+			})
+			.then(registryconfig => {
+				if (finished) {
+					// The build was cancelled before it was started
+					return;
+				}
+				if (replay !== undefined) {
+					// Nothing is sent to the daemon
+					inputStream.resume();
+					return replay();
+				}
+				requestStream = inputStream;
+				if (injectedFiles.length > 0) {
+					const injector = Context.injectFiles(injectedFiles);
+					injector.on('error', failBuild);
+					requestStream = inputStream.pipe(injector).pipe(es.through<Duplex>());
+				}
+				const request = Bluebird.resolve(
+					this.docker.buildImage(
+						requestStream,
+						registryconfig !== undefined
+							? { ...daemonOpts(), registryconfig }
+							: daemonOpts(),
+					),
+				).catch((error: Error) => {
+					throw new DaemonRequestError(error);
+				});
+				// The input has been piped to the request
+				inputStream.resume();
+				return request;
+			})
+			.then((stream?: Readable) => {
+				daemonStream = stream;
+				if (stream === undefined || finished) {
+					// The build was cancelled before the daemon responded
+					if (stream !== undefined) {
+						stream.destroy();
+					}
+					return;
+				}
+				return new Bluebird((resolve, reject) => {
+					const outputStream = Parser.getDockerDaemonBuildOutputParserStream(
+						stream,
+						layers,
+						fromTags,
+						reject,
+						(event: Events.BuildEvent) => {
+							if (event.type === 'aux-image-id') {
+								auxImageId = event.imageId;
+							}
+							layerOrigins.record(event);
+							const redacted = Secrets.redactValue(event, redact);
+							// The previous step is complete when the next one starts
+							steps.record(redacted);
+							if (redacted.type === 'step-start' && !finished) {
+								callStepHook('stepStart', redacted);
+							}
+							reportEvent(event);
+						},
+						(message: Events.DaemonMessage) => {
+							if (recorder !== undefined) {
+								recorder.record(redactMessage(message));
+							}
+						},
+						(text: string) => {
+							if (recorder !== undefined) {
+								recorder.recordText(redact(text));
+							}
+						},
+					);
+					outputStream.on('error', (error: Error) => {
+						stream.unpipe();
+						reject(error);
+					});
+					outputStream.on('end', () =>
+						// The 'end' event was observed to be emitted under error
+						// conditions, hence the test for streamError.
+						streamError ? reject(streamError) : resolve(),
+					);
+					// Connect the output of the docker daemon to the duplex stream
+					dup.setReadable(
+						_.isEmpty(secrets)
+							? outputStream
+							: outputStream.pipe(
+									es.through<Duplex>(function(text: string) {
+										this.emit('data', _.isString(text) ? redact(text) : text);
+									}),
+							  ),
+					);
+				});
+			}); // no .catch() here, but rejection is captured by Bluebird.all() below
 
 		// It is helpful for the following promises to run in parallel because
 		// buildPromise may reject sooner than the buildStream hook completes
@@ -135,15 +473,56 @@ export default class Builder {
 		])
 			.then(() => {
 				if (!streamError) {
-					// Build successful: call buildSuccess handler
-					return this.callHook(
-						hooks,
-						'buildSuccess',
-						handler,
-						_.last(layers),
-						layers,
-						fromTags,
-					);
+					// The last step is complete
+					steps.end();
+					return Bluebird.all(stepHooks);
+				}
+			})
+			.then(() => {
+				// A step hook may have failed the build
+				if (!streamError) {
+					finished = true;
+					if (signal != null) {
+						signal.removeEventListener('abort', cancel);
+					}
+					return endRecording()
+						.then(() =>
+							replay !== undefined
+								? auxImageId || _.last(layers)
+								: this.resolveImageId(auxImageId, layers),
+						)
+						.then(id => {
+							imageId = id;
+							return this.pushImages(id, options.push || [], reportEvent);
+						})
+						.tap(images => {
+							pushed = images;
+						})
+						.tap(() =>
+							this.cleanupLayers(
+								cleanupPolicy,
+								layers,
+								layerOrigins.origin,
+								imageId,
+								reportEvent,
+							),
+						)
+						.then(() => {
+							// A buildEvent hook may have failed the build
+							if (!streamError) {
+								// Build successful: call buildSuccess handler
+								return this.callHook(
+									hooks,
+									'buildSuccess',
+									handler,
+									imageId,
+									layers,
+									fromTags,
+									pushed,
+									steps.report(),
+								).then(() => endBuild(true));
+							}
+						});
 				}
 			})
 			.catch(failBuild);
@@ -154,46 +533,587 @@ export default class Builder {
 	/**
 	 * Given a path, this function will create a tar stream containing all of the files,
 	 * and stream it to the docker daemon. It will then return a stream connected to
-	 * the output of the docker daemon.
+	 * the output of the docker daemon. Files matched by a .dockerignore file at the
+	 * root of the directory are left out of the tar stream. The tar stream is
+	 * sent to the daemon while it is being created, one file at a time.
+	 * The Dockerfile is parsed first: if it is missing or invalid, the build
+	 * fails with a DockerfileError without the daemon being contacted. The
+	 * Dockerfile, the .dockerignore file and the registries to send the
+	 * credentials of are those of the build options as the preBuild hook
+	 * left them.
 	 *
 	 * @param dirPath Directory path to send to the docker daemon
-	 * @param buildOpts Build options to pass to the docker daemon
+	 * @param buildOpts Build options to pass to the docker daemon. The
+	 * returned promise is rejected with a BuildOptionsError if they are invalid
+	 * @param options Options controlling how the tar stream is created, and
+	 * other options handled by the builder, e.g. an abort signal
 	 *
 	 * @returns Promise of a stream connected to the docker daemon
 	 */
 	public buildDir(
 		dirPath: string,
-		buildOpts: { [key: string]: any },
+		buildOpts: Options.BuildOptions,
 		hooks: Plugin.BuildHooks,
 		handler: ErrorHandler = emptyHandler,
+		options: Options.BuildDirOptions = {},
 	): Bluebird<NodeJS.ReadableStream> {
-		const pack = tar.pack();
-
-		return Utils.directoryToFiles(dirPath)
-			.map((file: string) => {
-				// Work out the relative path
-				const relPath = path.relative(path.resolve(dirPath), file);
-				return Bluebird.all([relPath, fs.stat(file), fs.readFile(file)]);
-			})
-			.map((fileInfo: [string, fs.Stats, Buffer]) => {
-				return Bluebird.fromCallback(callback =>
-					pack.entry(
-						{ name: fileInfo[0], size: fileInfo[1].size },
-						fileInfo[2],
-						callback,
+		return Bluebird.try(() => {
+			Options.validateBuildOptions(buildOpts);
+			// Called once the preBuild hook has run, as it can change the
+			// Dockerfile and the build args
+			const prepare = (opts: Options.BuildOptions) =>
+				Bluebird.all([
+					Context.listDirectory(dirPath, opts.dockerfile),
+					// Check the Dockerfile first, rather than have the daemon report
+					// problems with it once the whole context has been sent
+					Dockerfile.readDockerfile(
+						dirPath,
+						opts.dockerfile,
+						// The secret build args are also build args
+						{
+							...opts.buildargs,
+							...(options.secrets && options.secrets.buildargs),
+						},
+						{ buildkit: opts.version === '2' },
 					),
-				);
-			})
-			.then(() => {
-				// Tell the tar stream we're done
-				pack.finalize();
-				// Create a build stream to send the data to
-				const stream = this.createBuildStream(buildOpts, hooks, handler);
-				// Write the tar archive to the stream
-				pack.pipe(stream);
-				// ...and return it for reading
-				return stream;
+				]).then(([entries, dockerfile]) => {
+					if (!failed) {
+						// Stream the tar archive to the daemon while it is being created
+						pack.pipe(stream);
+						Context.packEntries(pack, dirPath, entries, options).catch(
+							(error: Error) => {
+								pack.unpipe(stream);
+								stream.emit('error', error);
+							},
+						);
+					}
+					return Auth.dockerfileRegistries(dockerfile);
+				});
+			const pack = tar.pack();
+			let failed = false;
+			// Create a build stream to send the data to
+			const stream = this.startBuild(
+				buildOpts,
+				hooks,
+				handler,
+				options,
+				prepare,
+			);
+			// Stop packing if the build fails or is cancelled
+			stream.on('error', () => {
+				failed = true;
+				pack.unpipe(stream);
+				pack.destroy();
+			});
+			// ...and return it for reading
+			return stream;
+		});
+	}
+
+	/**
+	 * List the external images that the Dockerfile of a directory is built
+	 * FROM, before building it. The build args of `buildOpts` are substituted
+	 * in the FROM instructions, stages based on other stages are left out,
+	 * and the references are normalised (e.g. `docker.io/library/alpine:latest`).
+	 * The images can also be checked to exist locally, or be pulled, with
+	 * the registry credentials of the builder.
+	 *
+	 * @param dirPath Directory path of the build context
+	 * @param buildOpts The build options of the build
+	 * @param options What to do with the images, e.g. pull them
+	 *
+	 * @returns Promise of the base images, with their image IDs and pinned
+	 * references if they were checked or pulled
+	 */
+	public resolveBaseImages(
+		dirPath: string,
+		buildOpts: Options.BuildOptions = {},
+		options: BaseImages.BaseImageOptions = {},
+	): Bluebird<BaseImages.BaseImage[]> {
+		return Bluebird.try(() => {
+			Options.validateBuildOptions(buildOpts);
+			return Dockerfile.readDockerfile(
+				dirPath,
+				buildOpts.dockerfile,
+				buildOpts.buildargs,
+				{ buildkit: buildOpts.version === '2' },
+			);
+		}).then(dockerfile =>
+			BaseImages.resolveBaseImages(
+				this.docker,
+				BaseImages.listBaseImages(dockerfile),
+				{ platform: buildOpts.platform, auth: this.options.auth, ...options },
+			),
+		);
+	}
+
+	/**
+	 * Build several images, whose Dockerfiles may be FROM each other's
+	 * images. Images are built after the images they depend on, and images
+	 * that do not depend on each other are built in parallel, up to
+	 * `options.concurrency` at a time. If the build of an image fails, the
+	 * images that depend on it are skipped, and the others are still built.
+	 *
+	 * @param images The images to build; each image is built with the
+	 * promise API and tagged with its name, unless `buildOpts.t` is set
+	 * @param options Concurrency and progress callbacks
+	 *
+	 * @returns Promise of the outcome of every image, rejected with a
+	 * BuildGraphError if the images cannot be ordered, or with a
+	 * BuildOptionsError if `options.concurrency` is invalid
+	 */
+	public buildMany(
+		images: MultiBuild.ImageBuild[],
+		options: MultiBuild.BuildManyOptions = {},
+	): Bluebird<MultiBuild.BuildManyResult> {
+		let limit: ReturnType<typeof MultiBuild.concurrencyLimiter>;
+		return Bluebird.try(() => {
+			limit = MultiBuild.concurrencyLimiter(
+				options.concurrency !== undefined ? options.concurrency : 1,
+			);
+			return MultiBuild.resolveBuildOrder(images);
+		}).then(nodes => {
+			const outcomes = new Map<
+				string,
+				Bluebird<MultiBuild.ImageBuildOutcome>
+			>();
+			// As nodes come after their dependencies, the outcomes of the
+			// dependencies are always known here
+			for (const { image, dependencies } of nodes) {
+				const { name, context, ...opts } = image;
+				const outcome = Bluebird.all(
+					dependencies.map(dependency => outcomes.get(dependency)!),
+				)
+					.then(
+						(dependencyOutcomes): PromiseLike<MultiBuild.ImageBuildOutcome> => {
+							const failed = _.find(
+								dependencyOutcomes,
+								o => o.status !== 'success',
+							);
+							if (failed !== undefined) {
+								return Bluebird.resolve({
+									name,
+									status: 'skipped' as 'skipped',
+									dependencies,
+									error: new Error(
+										`Image ${name} depends on ${failed.name}, which was not built`,
+									),
+								});
+							}
+							return limit(() => {
+								if (options.onImageStart) {
+									options.onImageStart(name);
+								}
+								return this.build(context, {
+									...opts,
+									buildOpts: { t: name, ...opts.buildOpts },
+								}).then(
+									result => ({
+										name,
+										status: 'success' as 'success',
+										dependencies,
+										result,
+									}),
+									(error: Error) => ({
+										name,
+										status: 'failure' as 'failure',
+										dependencies,
+										error,
+									}),
+								);
+							});
+						},
+					)
+					.tap(o => {
+						if (options.onImageFinish) {
+							options.onImageFinish(o);
+						}
+					});
+				outcomes.set(name, outcome);
+			}
+			return Bluebird.map(nodes, node => outcomes.get(node.image.name)!).then(
+				results => ({
+					success: _.every(results, o => o.status === 'success'),
+					images: results,
+				}),
+			);
+		});
+	}
+
+	/**
+	 * Clone a git repository into a temporary directory, and build it as
+	 * buildDir does, so that its .dockerignore file is respected. The
+	 * directory is removed once the outcome of the build is known, before
+	 * the buildSuccess or buildFailure hook is called.
+	 *
+	 * @param repoUrl The URL (or path) of the git repository
+	 * @param ref The branch, tag or commit to build; if undefined, the default
+	 * branch is built
+	 * @param subdir The directory of the repository to use as the build
+	 * context; if undefined, the root of the repository is used
+	 * @param buildOpts Build options to pass to the docker daemon
+	 * @param options Options controlling how the tar stream is created, and
+	 * other options handled by the builder
+	 *
+	 * @returns Promise of a stream connected to the docker daemon
+	 */
+	public buildGit(
+		repoUrl: string,
+		ref: string | undefined,
+		subdir: string | undefined,
+		buildOpts: Options.BuildOptions,
+		hooks: Plugin.BuildHooks,
+		handler: ErrorHandler = emptyHandler,
+		options: Options.BuildDirOptions = {},
+	): Bluebird<NodeJS.ReadableStream> {
+		return Bluebird.try(() => {
+			Options.validateBuildOptions(buildOpts);
+			return fs.mkdtemp(path.join(os.tmpdir(), 'docker-build-git-'), 'utf8');
+		}).then(tmpDir => {
+			const cleanup = _.once(() =>
+				Utils.removeDirectory(tmpDir).catchReturn(undefined),
+			);
+			const contextDir = path.join(tmpDir, subdir || '');
+			if (_.startsWith(path.relative(tmpDir, contextDir), '..')) {
+				return cleanup().then(() => {
+					throw new Error(`${subdir} is not a directory of the repository`);
+				});
+			}
+			const cleanupHooks: Plugin.BuildHooks = {
+				...hooks,
+				buildSuccess: (imageId, layers, fromTags, pushed, report) =>
+					cleanup().then(() => {
+						if (hooks.buildSuccess) {
+							return hooks.buildSuccess(
+								imageId,
+								layers,
+								fromTags,
+								pushed,
+								report,
+							);
+						}
+					}),
+				buildFailure: (error, layers, fromTags, report) =>
+					cleanup().then(() => {
+						if (hooks.buildFailure) {
+							return hooks.buildFailure(error, layers, fromTags, report);
+						}
+					}),
+			};
+			return Remote.cloneRepository(repoUrl, ref, tmpDir)
+				.then(() =>
+					this.buildDir(contextDir, buildOpts, cleanupHooks, handler, options),
+				)
+				.tapCatch(cleanup);
+		});
+	}
+
+	/**
+	 * Download a build context archive, and stream it to the docker daemon.
+	 * The archive can be a tar archive, or a tar archive compressed with
+	 * gzip, bzip2 or xz, which the daemon decompresses. A preBuild hook can
+	 * only add files to uncompressed archives.
+	 *
+	 * @param archiveUrl The http(s) URL of the archive
+	 * @param buildOpts Build options to pass to the docker daemon
+	 * @param options Options handled by the builder, e.g. an abort signal
+	 *
+	 * @returns Promise of a stream connected to the docker daemon, rejected
+	 * if the download fails or is not an archive
+	 */
+	public buildRemoteTar(
+		archiveUrl: string,
+		buildOpts: Options.BuildOptions,
+		hooks: Plugin.BuildHooks,
+		handler: ErrorHandler = emptyHandler,
+		options: Options.BuildStreamOptions = {},
+	): Bluebird<NodeJS.ReadableStream> {
+		return Bluebird.try(() => {
+			Options.validateBuildOptions(buildOpts);
+			return Remote.fetchArchive(archiveUrl);
+		}).then(archive => {
+			const stream = this.createBuildStream(buildOpts, hooks, handler, options);
+			// Stop downloading if the build fails or is cancelled
+			stream.on('error', () => {
+				archive.unpipe(stream);
+				archive.resume();
+			});
+			archive.on('error', (error: Error) => {
+				archive.unpipe(stream);
+				stream.emit('error', error);
 			});
+			archive.pipe(stream);
+			return stream;
+		});
+	}
+
+	/**
+	 * Replay a recorded build: the recorded output of the daemon is parsed and
+	 * reported to the hooks as if a daemon were producing it, e.g. to debug a
+	 * failed build offline. Nothing is sent to the daemon: the stream passed
+	 * to the buildStream hook can be written to, but its input is discarded,
+	 * and the ID of the built image is the one recorded (the aux image ID, or
+	 * else the short ID of the last layer).
+	 *
+	 * @param recording The path of a file recorded with the `record` option,
+	 * or the recorded messages
+	 * @param options Options of the replay, e.g. an abort signal
+	 *
+	 * @returns A bi-directional stream connected to the replay
+	 */
+	public replayBuild(
+		recording: string | Recording.RecordedMessage[],
+		hooks: Plugin.BuildHooks = {},
+		handler: ErrorHandler = emptyHandler,
+		options: Recording.ReplayOptions = {},
+	): NodeJS.ReadWriteStream {
+		return this.startBuild(
+			{},
+			hooks,
+			handler,
+			{ signal: options.signal },
+			undefined,
+			() =>
+				Bluebird.resolve(
+					_.isString(recording)
+						? Recording.readRecording(recording)
+						: recording,
+				).then(messages => Recording.replayStream(messages, options.realTime)),
+		);
+	}
+
+	/**
+	 * Build an image, and return a promise of the result of the build. This is
+	 * a wrapper of the hook API: the build is started with buildDir for a
+	 * directory, or with createBuildStream for a tar stream.
+	 *
+	 * @param context Directory path, or tar stream of the build context
+	 * @param opts Build options to pass to the docker daemon (as
+	 * `opts.buildOpts`), and options handled by the builder
+	 *
+	 * @returns Promise of the result of the build, rejected with a BuildError
+	 * if the build fails
+	 */
+	public build(
+		context: string | NodeJS.ReadableStream,
+		opts: Options.BuildPromiseOptions = {},
+	): Bluebird<Result.BuildResult> {
+		const { buildOpts = {}, onStream, onEvent, ...options } = opts;
+		const startTime = Date.now();
+		const warnings: string[] = [];
+		const removedLayers: string[] = [];
+		let log = '';
+		const output = (
+			layers: string[],
+			fromTags: Utils.FromTagInfo[],
+			report: Report.BuildReport,
+		): Result.BuildOutput => ({
+			layers,
+			fromTags,
+			report,
+			removedLayers,
+			warnings,
+			durationMs: Date.now() - startTime,
+			log,
+		});
+
+		return new Bluebird<Result.BuildResult>((resolve, reject) => {
+			const hooks: Plugin.BuildHooks = {
+				buildStream: stream => {
+					stream.on('data', (data: Buffer | string) => {
+						log += data;
+					});
+					if (onStream) {
+						onStream(stream);
+					}
+					if (!_.isString(context)) {
+						context.on('error', (error: Error) => stream.emit('error', error));
+						context.pipe(stream);
+					}
+				},
+				buildEvent: event => {
+					if (event.type === 'warning') {
+						warnings.push(event.message);
+					} else if (event.type === 'layers-removed') {
+						removedLayers.push(...event.layers);
+					}
+					if (onEvent) {
+						onEvent(event);
+					}
+				},
+				buildSuccess: (imageId, layers, fromTags, pushed, report) => {
+					resolve({ imageId, pushed, ...output(layers, fromTags, report) });
+				},
+				buildFailure: (error, layers, fromTags, report) => {
+					reject(new BuildError(error, output(layers, fromTags, report)));
+				},
+			};
+			if (_.isString(context)) {
+				this.buildDir(context, buildOpts, hooks, emptyHandler, options).catch(
+					(error: Error) => {
+						// The build did not start
+						const report = Report.trackSteps().report();
+						reject(new BuildError(error, output([], [], report)));
+					},
+				);
+			} else {
+				this.createBuildStream(buildOpts, hooks, emptyHandler, options);
+			}
+		});
+	}
+
+	/**
+	 * Internal function to remove the images of a build that a cleanup policy
+	 * applies to, and that are not in use. The removed images are reported
+	 * with a `layers-removed` event.
+	 *
+	 * @param policy The cleanup policy
+	 * @param layers The layers of the build
+	 * @param origin The origin of each layer
+	 * @param keep The ID of an image to keep, e.g. the built image
+	 * @param onEvent Called with the event reporting the removed images
+	 *
+	 * @returns Promise of the IDs of the images that were removed
+	 */
+	private cleanupLayers(
+		policy: Cleanup.CleanupPolicy,
+		layers: string[],
+		origin: (layer: string) => Cleanup.LayerOrigin,
+		keep: string | undefined,
+		onEvent: (event: Events.BuildEvent) => void,
+	): Bluebird<string[]> {
+		return Cleanup.removeImages(
+			this.docker,
+			Cleanup.cleanupCandidates(policy, layers, origin),
+			keep,
+		).tap(removed => {
+			if (removed.length > 0) {
+				onEvent({ type: 'layers-removed', layers: removed });
+			}
+		});
+	}
+
+	/**
+	 * Internal function to tag a built image with references and push it to
+	 * their registries, one reference after the other, with the credentials
+	 * of the builder.
+	 *
+	 * @param imageId The ID of the built image
+	 * @param refs The references to push the image as
+	 * @param onEvent Called with the push progress events
+	 *
+	 * @returns Promise of the pushed images, rejected with a PushError if a
+	 * push fails
+	 */
+	private pushImages(
+		imageId: string | undefined,
+		refs: string[],
+		onEvent: (event: Events.BuildEvent) => void,
+	): Bluebird<Plugin.PushedImage[]> {
+		const { auth } = this.options;
+		return Bluebird.mapSeries(refs, ref => {
+			if (imageId === undefined) {
+				throw new PushError(ref, 'the ID of the built image is unknown');
+			}
+			return Bluebird.resolve(
+				auth !== undefined
+					? Auth.resolveRegistryAuth(
+							Push.parsePushReference(ref).registry,
+							auth,
+					  )
+					: undefined,
+			).then(registryAuth =>
+				Push.pushImage(this.docker, imageId, ref, registryAuth, onEvent),
+			);
+		});
+	}
+
+	/**
+	 * Internal function to pull the images to use as sources of the build
+	 * cache, one after the other, with the credentials of the builder. As
+	 * the images may not exist yet, e.g. before the first build, failures
+	 * are reported as warnings and do not fail the build.
+	 *
+	 * @param refs The references of the images
+	 * @param onEvent Called with the pull progress events and the warnings
+	 *
+	 * @returns Promise resolved once the images have been pulled
+	 */
+	private pullCacheSources(
+		refs: string[],
+		onEvent: (event: Events.BuildEvent) => void,
+	): Bluebird<void> {
+		const { auth } = this.options;
+		return Bluebird.each(refs, ref =>
+			Bluebird.resolve(
+				auth !== undefined
+					? Auth.resolveRegistryAuth(parseImageReference(ref).registry, auth)
+					: undefined,
+			)
+				.then(registryAuth =>
+					Cache.pullCacheSource(this.docker, ref, registryAuth, onEvent),
+				)
+				.catch((error: Error) => {
+					onEvent({
+						type: 'warning',
+						message: `Could not pull the cache source ${ref}: ${error.message}`,
+					});
+				}),
+		).return();
+	}
+
+	/**
+	 * Internal function to look up the registry credentials to send to the
+	 * daemon for a build: those of the registries of its base images and of
+	 * its `cachefrom` images. Credentials given in the build options are sent
+	 * as they are.
+	 *
+	 * @param buildOpts The build options
+	 * @param registries The registries of the base images, if known; if not,
+	 * the registries explicitly configured in the builder are used
+	 *
+	 * @returns Promise of the credentials, or of undefined if there are none
+	 */
+	private registryConfig(
+		buildOpts: Options.BuildOptions,
+		registries?: string[],
+	): Bluebird<Auth.RegistryConfig | undefined> {
+		const { auth } = this.options;
+		if (auth === undefined || buildOpts.registryconfig !== undefined) {
+			return Bluebird.resolve(undefined);
+		}
+		return Auth.resolveRegistryConfig(
+			_.concat(
+				registries || _.keys(auth.registries),
+				Auth.imageRegistries(buildOpts.cachefrom || []),
+			),
+			auth,
+		).then(config => (_.isEmpty(config) ? undefined : config));
+	}
+
+	/**
+	 * Internal function to determine the ID of a built image. The ID reported
+	 * by the daemon in its aux message is authoritative, but older daemons do
+	 * not send it, in which case the last layer printed in the build output is
+	 * used instead. As that is truncated, the daemon is asked for the full
+	 * `sha256:` ID, falling back to the truncated one if that fails.
+	 *
+	 * @param auxImageId The image ID of the daemon's aux message, if any
+	 * @param layers The layers extracted from the build output
+	 *
+	 * @returns Promise of the image ID
+	 */
+	private resolveImageId(
+		auxImageId: string | undefined,
+		layers: string[],
+	): Bluebird<string | undefined> {
+		const lastLayer = _.last(layers);
+		if (auxImageId !== undefined || lastLayer === undefined) {
+			return Bluebird.resolve(auxImageId);
+		}
+		return Bluebird.try(() => this.docker.getImage(lastLayer).inspect())
+			.then((info: Dockerode.ImageInspectInfo) => info.Id)
+			.catchReturn(lastLayer);
 	}
 
 	/**
@@ -203,7 +1123,9 @@ export default class Builder {
 	 * unwrapped before being passed to the callback.
 	 *
 	 * @returns Promise that resolves to the return value of the hook function,
-	 * or to undefined if the a hook function is not provided.
+	 * or to undefined if the a hook function is not provided. It is rejected
+	 * with a HookError if the hook fails; the handler is called with the error
+	 * of the hook.
 	 */
 	private callHook(
 		hooks: Plugin.BuildHooks,
@@ -217,64 +1139,14 @@ export default class Builder {
 				// Spread the arguments onto the callback function
 				return fn.apply(null, args);
 			}
-		}).tapCatch((error: Error) => {
-			if (_.isFunction(handler)) {
-				handler(error);
-			}
-		});
+		})
+			.tapCatch((error: Error) => {
+				if (_.isFunction(handler)) {
+					handler(error);
+				}
+			})
+			.catch((error: Error) => {
+				throw new HookError(hook, error);
+			});
 	}
 }
-
-/**
- * Return an event stream capable of parsing a docker daemon's JSON object output.
- * @param daemonStream: Docker daemon's output stream (dockerode.buildImage)
- * @param layers Array to which to push parsed image layer sha strings
- * @param fromImageTags Array to which to push parsed FROM image tags info
- * @param onError Error callback
- */
-function getDockerDaemonBuildOutputParserStream(
-	daemonStream: Readable,
-	layers: string[],
-	fromImageTags: Utils.FromTagInfo[],
-	onError: (error: Error) => void,
-): Duplex {
-	const fromAliases = new Set();
-	return (
-		daemonStream
-			// parse the docker daemon's output json objects
-			.pipe(JSONStream.parse())
-			// Don't use fat-arrow syntax here, to capture 'this' from es
-			.pipe(
-				es.through<Duplex>(function(data: { stream: string; error: string }) {
-					if (data == null) {
-						return;
-					}
-					try {
-						if (data.error) {
-							throw new Error(data.error);
-						} else {
-							// Store image layers, so that they can be
-							// deleted by the caller if necessary
-							const sha = Utils.extractLayer(data.stream);
-							if (sha !== undefined) {
-								layers.push(sha);
-							}
-							const fromTag = Utils.extractFromTag(data.stream);
-							if (fromTag !== undefined) {
-								if (!fromAliases.has(fromTag.repo)) {
-									fromImageTags.push(fromTag);
-								}
-								if (fromTag.alias) {
-									fromAliases.add(fromTag.alias);
-								}
-							}
-							this.emit('data', data.stream);
-						}
-					} catch (error) {
-						daemonStream.unpipe();
-						onError(error);
-					}
-				}),
-			)
-	);
-}
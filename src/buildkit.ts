@@ -0,0 +1,529 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+
+import { BuildEvent, PullProgressEvent } from './events';
+
+/**
+ * The `id` of the daemon messages whose `aux` field is a base64 encoded
+ * BuildKit StatusResponse protobuf message
+ */
+export const buildKitTraceId = 'moby.buildkit.trace';
+
+/** A node of the BuildKit build graph, e.g. a Dockerfile step */
+export interface Vertex {
+	digest: string;
+	inputs: string[];
+	name: string;
+	cached: boolean;
+	started?: Date;
+	completed?: Date;
+	error?: string;
+}
+
+/** Progress of an operation of a vertex, e.g. a layer download */
+export interface VertexStatus {
+	id: string;
+	vertex: string;
+	name: string;
+	current: number;
+	total: number;
+	timestamp?: Date;
+	started?: Date;
+	completed?: Date;
+}
+
+/** Output of a vertex, e.g. the stdout of a RUN step */
+export interface VertexLog {
+	vertex: string;
+	timestamp?: Date;
+	// 1 for stdout, 2 for stderr
+	stream: number;
+	msg: Buffer;
+}
+
+/** A warning about a vertex, e.g. a Dockerfile lint warning */
+export interface VertexWarning {
+	vertex: string;
+	level: number;
+	short: string;
+}
+
+/** The BuildKit StatusResponse message, as sent in build traces */
+export interface StatusResponse {
+	vertexes: Vertex[];
+	statuses: VertexStatus[];
+	logs: VertexLog[];
+	warnings: VertexWarning[];
+}
+
+/**
+ * A minimal reader of the protobuf wire format, sufficient to decode the
+ * messages of BuildKit build traces. Unknown fields are skipped.
+ */
+class ProtobufReader {
+	private pos = 0;
+
+	public constructor(private buf: Buffer) {}
+
+	public done(): boolean {
+		return this.pos >= this.buf.length;
+	}
+
+	public position(): number {
+		return this.pos;
+	}
+
+	public varint(): number {
+		let value = 0;
+		let multiplier = 1;
+		let byte: number;
+		do {
+			if (this.done()) {
+				throw new Error('Truncated BuildKit trace message');
+			}
+			byte = this.buf[this.pos++];
+			value += (byte % 128) * multiplier;
+			multiplier *= 128;
+		} while (byte >= 128);
+		return value;
+	}
+
+	public bytes(): Buffer {
+		const length = this.varint();
+		if (this.pos + length > this.buf.length) {
+			throw new Error('Truncated BuildKit trace message');
+		}
+		const value = this.buf.slice(this.pos, this.pos + length);
+		this.pos += length;
+		return value;
+	}
+
+	public string(): string {
+		return this.bytes().toString('utf8');
+	}
+
+	/**
+	 * Read the fields of the message, calling `onField` with the field number
+	 * of each. `onField` must consume the field value and return true, or
+	 * return false for the field to be skipped.
+	 */
+	public fields(onField: (field: number, wireType: number) => boolean) {
+		while (!this.done()) {
+			const key = this.varint();
+			const field = Math.floor(key / 8);
+			const wireType = key % 8;
+			if (!onField(field, wireType)) {
+				this.skip(wireType);
+			}
+		}
+	}
+
+	public skip(wireType: number) {
+		switch (wireType) {
+			case 0:
+				this.varint();
+				break;
+			case 1:
+				this.pos += 8;
+				break;
+			case 2:
+				this.bytes();
+				break;
+			case 5:
+				this.pos += 4;
+				break;
+			default:
+				throw new Error(`Unsupported protobuf wire type: ${wireType}`);
+		}
+	}
+}
+
+const decodeTimestamp = (buf: Buffer): Date => {
+	const reader = new ProtobufReader(buf);
+	let seconds = 0;
+	let nanos = 0;
+	reader.fields(field => {
+		if (field === 1) {
+			seconds = reader.varint();
+		} else if (field === 2) {
+			nanos = reader.varint();
+		} else {
+			return false;
+		}
+		return true;
+	});
+	return new Date(seconds * 1000 + Math.floor(nanos / 1e6));
+};
+
+const decodeVertex = (buf: Buffer): Vertex => {
+	const reader = new ProtobufReader(buf);
+	const vertex: Vertex = { digest: '', inputs: [], name: '', cached: false };
+	reader.fields(field => {
+		switch (field) {
+			case 1:
+				vertex.digest = reader.string();
+				break;
+			case 2:
+				vertex.inputs.push(reader.string());
+				break;
+			case 3:
+				vertex.name = reader.string();
+				break;
+			case 4:
+				vertex.cached = reader.varint() !== 0;
+				break;
+			case 5:
+				vertex.started = decodeTimestamp(reader.bytes());
+				break;
+			case 6:
+				vertex.completed = decodeTimestamp(reader.bytes());
+				break;
+			case 7:
+				vertex.error = reader.string();
+				break;
+			default:
+				return false;
+		}
+		return true;
+	});
+	return vertex;
+};
+
+const decodeVertexStatus = (buf: Buffer): VertexStatus => {
+	const reader = new ProtobufReader(buf);
+	const status: VertexStatus = {
+		id: '',
+		vertex: '',
+		name: '',
+		current: 0,
+		total: 0,
+	};
+	reader.fields(field => {
+		switch (field) {
+			case 1:
+				status.id = reader.string();
+				break;
+			case 2:
+				status.vertex = reader.string();
+				break;
+			case 3:
+				status.name = reader.string();
+				break;
+			case 4:
+				status.current = reader.varint();
+				break;
+			case 5:
+				status.total = reader.varint();
+				break;
+			case 6:
+				status.timestamp = decodeTimestamp(reader.bytes());
+				break;
+			case 7:
+				status.started = decodeTimestamp(reader.bytes());
+				break;
+			case 8:
+				status.completed = decodeTimestamp(reader.bytes());
+				break;
+			default:
+				return false;
+		}
+		return true;
+	});
+	return status;
+};
+
+const decodeVertexLog = (buf: Buffer): VertexLog => {
+	const reader = new ProtobufReader(buf);
+	const log: VertexLog = { vertex: '', stream: 0, msg: Buffer.alloc(0) };
+	reader.fields(field => {
+		switch (field) {
+			case 1:
+				log.vertex = reader.string();
+				break;
+			case 2:
+				log.timestamp = decodeTimestamp(reader.bytes());
+				break;
+			case 3:
+				log.stream = reader.varint();
+				break;
+			case 4:
+				log.msg = reader.bytes();
+				break;
+			default:
+				return false;
+		}
+		return true;
+	});
+	return log;
+};
+
+const decodeVertexWarning = (buf: Buffer): VertexWarning => {
+	const reader = new ProtobufReader(buf);
+	const warning: VertexWarning = { vertex: '', level: 0, short: '' };
+	reader.fields(field => {
+		switch (field) {
+			case 1:
+				warning.vertex = reader.string();
+				break;
+			case 2:
+				warning.level = reader.varint();
+				break;
+			case 3:
+				warning.short = reader.string();
+				break;
+			default:
+				return false;
+		}
+		return true;
+	});
+	return warning;
+};
+
+/**
+ * Decode the `aux` field of a `moby.buildkit.trace` daemon message.
+ *
+ * @param aux The base64 encoded StatusResponse protobuf message
+ * @returns The decoded message
+ */
+export const decodeTrace = (aux: string): StatusResponse => {
+	const reader = new ProtobufReader(Buffer.from(aux, 'base64'));
+	const status: StatusResponse = {
+		vertexes: [],
+		statuses: [],
+		logs: [],
+		warnings: [],
+	};
+	reader.fields((field, wireType) => {
+		if (wireType !== 2) {
+			return false;
+		}
+		switch (field) {
+			case 1:
+				status.vertexes.push(decodeVertex(reader.bytes()));
+				break;
+			case 2:
+				status.statuses.push(decodeVertexStatus(reader.bytes()));
+				break;
+			case 3:
+				status.logs.push(decodeVertexLog(reader.bytes()));
+				break;
+			case 4:
+				status.warnings.push(decodeVertexWarning(reader.bytes()));
+				break;
+			default:
+				return false;
+		}
+		return true;
+	});
+	return status;
+};
+
+const encodeVarint = (value: number): Buffer => {
+	const bytes: number[] = [];
+	for (; value >= 128; value = Math.floor(value / 128)) {
+		bytes.push((value % 128) + 128);
+	}
+	bytes.push(value);
+	return Buffer.from(bytes);
+};
+
+// Rewrite the given length-delimited fields of a protobuf message, by field
+// number, and copy the other fields as they are
+const rewriteFields = (
+	buf: Buffer,
+	rewriters: { [field: number]: (value: Buffer) => Buffer },
+): Buffer => {
+	const reader = new ProtobufReader(buf);
+	const parts: Buffer[] = [];
+	// The start of the fields that are not copied yet
+	let copied = 0;
+	while (!reader.done()) {
+		const start = reader.position();
+		const key = reader.varint();
+		const rewrite = rewriters[Math.floor(key / 8)];
+		if (key % 8 !== 2 || rewrite === undefined) {
+			reader.skip(key % 8);
+			continue;
+		}
+		const value = rewrite(reader.bytes());
+		parts.push(
+			buf.slice(copied, start),
+			encodeVarint(key),
+			encodeVarint(value.length),
+			value,
+		);
+		copied = reader.position();
+	}
+	parts.push(buf.slice(copied));
+	return Buffer.concat(parts);
+};
+
+/**
+ * Redact the text of the `aux` field of a `moby.buildkit.trace` daemon
+ * message: the names and errors of the vertexes and statuses, the logs and
+ * the warnings. The other fields are kept as they are.
+ *
+ * @param aux The base64 encoded StatusResponse protobuf message
+ * @param redact The redaction function
+ * @returns The redacted message, base64 encoded
+ * @throws Error if the message is truncated or malformed
+ */
+export const redactTrace = (
+	aux: string,
+	redact: (text: string) => string,
+): string => {
+	const redactBytes = (value: Buffer): Buffer => {
+		const text = value.toString('utf8');
+		const redacted = redact(text);
+		// Logs can be split in the middle of a character, which is left alone
+		// unless the text has secrets
+		return redacted === text ? value : Buffer.from(redacted, 'utf8');
+	};
+	return rewriteFields(Buffer.from(aux, 'base64'), {
+		1: vertex => rewriteFields(vertex, { 3: redactBytes, 7: redactBytes }),
+		2: status => rewriteFields(status, { 3: redactBytes }),
+		3: log => rewriteFields(log, { 4: redactBytes }),
+		// The short description and the details of the warning
+		4: warning => rewriteFields(warning, { 3: redactBytes, 4: redactBytes }),
+	}).toString('base64');
+};
+
+/**
+ * What a build trace message means for the builder: the text to display in
+ * the build stream, the structured events, and the vertexes that completed
+ */
+export interface TraceUpdate {
+	text: string;
+	events: BuildEvent[];
+	// Vertexes that were first reported with this update
+	started: Vertex[];
+	// Vertexes that completed successfully with this update
+	completed: Vertex[];
+}
+
+// Matches the '[stage 2/3] ' prefix of the names of Dockerfile step vertexes
+const stepNamePattern = /^\[(?:[^\]\s]+\s+)?(\d+)\/(\d+)\]\s+((\S+).*)$/;
+
+/**
+ * This class keeps track of the vertexes of a BuildKit build, converting
+ * the decoded build traces into text output (in the style of the docker
+ * CLI's `--progress=plain` output) and into build events.
+ */
+export class TraceProgress {
+	// Vertex digest to the number it is displayed with
+	private numbers = new Map<string, number>();
+	private vertexes = new Map<string, Vertex>();
+
+	public update(response: StatusResponse): TraceUpdate {
+		const update: TraceUpdate = {
+			text: '',
+			events: [],
+			started: [],
+			completed: [],
+		};
+
+		// Vertexes that completed with this update, reported after their output
+		const completed: Vertex[] = [];
+
+		for (const vertex of response.vertexes) {
+			const previous = this.vertexes.get(vertex.digest);
+			this.vertexes.set(vertex.digest, vertex);
+
+			if (previous === undefined) {
+				update.started.push(vertex);
+				update.text += `#${this.vertexNumber(vertex.digest)} ${vertex.name}\n`;
+				const match = stepNamePattern.exec(vertex.name);
+				if (match) {
+					update.events.push({
+						type: 'step-start',
+						step: parseInt(match[1], 10),
+						totalSteps: parseInt(match[2], 10),
+						instruction: match[4].toUpperCase(),
+						command: match[3],
+					});
+				}
+			}
+			if (vertex.completed && !(previous && previous.completed)) {
+				completed.push(vertex);
+			}
+		}
+
+		for (const status of response.statuses) {
+			const event: PullProgressEvent = {
+				type: 'pull-progress',
+				status: status.name || status.id,
+				id: status.id,
+				current: status.current,
+			};
+			if (status.total) {
+				event.total = status.total;
+			}
+			update.events.push(event);
+			if (status.completed) {
+				update.text += `#${this.vertexNumber(status.vertex)} ${
+					status.id
+				} done\n`;
+			}
+		}
+
+		for (const log of response.logs) {
+			const prefix = `#${this.vertexNumber(log.vertex)}`;
+			const text = log.msg.toString('utf8');
+			update.events.push({ type: 'step-output', text });
+			update.text += _.trimEnd(text, '\n')
+				.split('\n')
+				.map(line => `${prefix} ${line}\n`)
+				.join('');
+		}
+
+		for (const warning of response.warnings) {
+			update.events.push({ type: 'warning', message: warning.short });
+			update.text += `#${this.vertexNumber(warning.vertex)} WARNING: ${
+				warning.short
+			}\n`;
+		}
+
+		for (const vertex of completed) {
+			const prefix = `#${this.vertexNumber(vertex.digest)}`;
+			if (vertex.error) {
+				update.text += `${prefix} ERROR: ${vertex.error}\n`;
+				continue;
+			}
+			if (vertex.cached) {
+				update.text += `${prefix} CACHED\n`;
+			} else {
+				const seconds = vertex.started
+					? (vertex.completed!.getTime() - vertex.started.getTime()) / 1000
+					: 0;
+				update.text += `${prefix} DONE ${seconds.toFixed(1)}s\n`;
+			}
+			update.completed.push(vertex);
+		}
+
+		return update;
+	}
+
+	private vertexNumber(digest: string): number {
+		let num = this.numbers.get(digest);
+		if (num === undefined) {
+			num = this.numbers.size + 1;
+			this.numbers.set(digest, num);
+		}
+		return num;
+	}
+}
@@ -0,0 +1,184 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as Dockerode from 'dockerode';
+import * as JSONStream from 'JSONStream';
+import * as _ from 'lodash';
+
+import { RegistryAuth } from './auth';
+import { BuildEvent, DaemonMessage, parseDaemonMessage } from './events';
+import { parseImageReference } from './reference';
+import { StepReport } from './report';
+
+/**
+ * CacheStatus: Whether the result of a build step was found in the cache
+ */
+export type CacheStatus = 'hit' | 'miss';
+
+/**
+ * CacheInvalidation: The first step of a build that was not found in the
+ * cache, after which the following steps of its stage are built again
+ */
+export interface CacheInvalidation {
+	step: number;
+	command: string;
+	// The likely reason why the step was not found in the cache
+	cause: string;
+}
+
+/**
+ * CacheAnalysis: How much of a build was found in the cache
+ */
+export interface CacheAnalysis {
+	// The cache status of each step, by step number; FROM steps, which are
+	// not cached, are left out
+	steps: { [step: number]: CacheStatus };
+	hits: number;
+	misses: number;
+	invalidatedBy?: CacheInvalidation;
+}
+
+/**
+ * Describe the files that a COPY or ADD instruction copies, e.g.
+ * `src/, package.json` or `/app of stage build`
+ */
+const copySources = (command: string): string => {
+	const args = command.replace(/^\S+\s*/, '');
+	const flags = (/^(?:--\S+\s+)*/.exec(args) || [''])[0];
+	const rest = args.slice(flags.length).trim();
+	let paths: string[];
+	try {
+		paths = JSON.parse(rest);
+		if (!_.isArray(paths)) {
+			throw new Error('not the exec form');
+		}
+	} catch {
+		paths = rest.split(/\s+/);
+	}
+	const sources = _.initial(paths).join(', ') || rest;
+	const from = /(?:^|\s)--from=(\S+)/.exec(flags);
+	return from ? `${sources} of ${from[1]}` : sources;
+};
+
+/**
+ * Guess why a step was not found in the cache, although the step before
+ * it was (if any)
+ */
+const invalidationCause = (
+	step: StepReport,
+	previous: StepReport | undefined,
+): string => {
+	const causes: string[] = [];
+	switch (step.instruction) {
+		case 'COPY':
+		case 'ADD':
+			causes.push(`the files copied from ${copySources(step.command)} changed`);
+			break;
+		case 'RUN':
+			causes.push('the command, or a build argument it uses, changed');
+			break;
+		case 'ARG':
+			causes.push('the value of the build argument changed');
+			break;
+		default:
+			causes.push('the instruction changed');
+	}
+	if (previous === undefined || previous.instruction === 'FROM') {
+		causes.push(
+			'the base image changed, or the cache has no image built from it',
+		);
+	}
+	return causes.join(', or ');
+};
+
+/**
+ * Analyse which steps of a build were found in the cache, and find the
+ * first step that was not, with the likely cause.
+ *
+ * @param steps The steps of the build, in order
+ * @param nocache Whether the build was run with the nocache build option
+ * @returns The analysis
+ */
+export const analyseCache = (
+	steps: StepReport[],
+	nocache = false,
+): CacheAnalysis => {
+	const analysis: CacheAnalysis = { steps: {}, hits: 0, misses: 0 };
+	steps.forEach((step, index) => {
+		if (step.instruction === 'FROM') {
+			return;
+		}
+		analysis.steps[step.step] = step.cached ? 'hit' : 'miss';
+		if (step.cached) {
+			analysis.hits += 1;
+			return;
+		}
+		analysis.misses += 1;
+		if (analysis.invalidatedBy === undefined) {
+			analysis.invalidatedBy = {
+				step: step.step,
+				command: step.command,
+				cause: nocache
+					? 'the cache is disabled by the nocache build option'
+					: invalidationCause(step, steps[index - 1]),
+			};
+		}
+	});
+	return analysis;
+};
+
+/**
+ * Pull an image to use as a source of the build cache. The reference is
+ * normalised first, so that an untagged reference pulls the `latest` tag
+ * rather than every tag of the repository.
+ *
+ * @param docker The docker daemon to use
+ * @param ref The reference of the image
+ * @param auth The credentials of the registry of the image, if any
+ * @param onEvent Called with the pull progress events
+ * @returns Promise rejected with the error of the pull, if any
+ */
+export const pullCacheSource = (
+	docker: Dockerode,
+	ref: string,
+	auth: RegistryAuth | undefined,
+	onEvent: (event: BuildEvent) => void,
+): Bluebird<void> =>
+	Bluebird.try(() =>
+		docker.pull(
+			parseImageReference(ref).reference,
+			auth !== undefined ? { authconfig: auth } : {},
+		),
+	).then(
+		(stream: NodeJS.ReadableStream) =>
+			new Bluebird<void>((resolve, reject) => {
+				stream
+					.pipe(JSONStream.parse())
+					.on('data', (data: DaemonMessage) => {
+						for (const event of parseDaemonMessage(data)) {
+							if (event.type === 'error') {
+								reject(new Error(event.message));
+								return;
+							}
+							onEvent(event);
+						}
+					})
+					.on('error', reject)
+					.on('end', resolve);
+				stream.on('error', reject);
+			}),
+	);
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as Dockerode from 'dockerode';
+import * as _ from 'lodash';
+
+import { BuildEvent, isCacheHit } from './events';
+
+/**
+ * CleanupPolicy: Which of the images created by a build to remove once it
+ * is over. 'dangling' removes the images that the build created and that
+ * are left unused, 'all-intermediate' also removes the images that the
+ * build reused from the cache of earlier builds, and 'none' keeps them all.
+ */
+export type CleanupPolicy = 'none' | 'dangling' | 'all-intermediate';
+
+/**
+ * LayerOrigin: Where an image listed in the build output comes from: the
+ * base image of a stage, the build cache, or the build itself
+ */
+export type LayerOrigin = 'base' | 'cached' | 'built';
+
+/**
+ * Create a tracker of the origin of the layers of a build, which is fed
+ * the events of the build.
+ *
+ * @returns `record(event)` to call for every build event, and
+ * `origin(layer)` to get the origin of a layer
+ */
+export const trackLayerOrigins = () => {
+	const origins = new Map<string, LayerOrigin>();
+	let next: LayerOrigin = 'built';
+	return {
+		record: (event: BuildEvent) => {
+			if (event.type === 'step-start') {
+				next = event.instruction === 'FROM' ? 'base' : 'built';
+			} else if (isCacheHit(event)) {
+				next = 'cached';
+			} else if (event.type === 'layer-created') {
+				if (!origins.has(event.layer)) {
+					origins.set(event.layer, next);
+				}
+				next = 'built';
+			}
+		},
+		origin: (layer: string): LayerOrigin => origins.get(layer) || 'built',
+	};
+};
+
+/**
+ * Select the layers of a build that a cleanup policy applies to
+ *
+ * @param policy The cleanup policy
+ * @param layers The layers of the build
+ * @param origin The origin of each layer
+ * @returns The layers to try to remove
+ */
+export const cleanupCandidates = (
+	policy: CleanupPolicy,
+	layers: string[],
+	origin: (layer: string) => LayerOrigin,
+): string[] => {
+	switch (policy) {
+		case 'none':
+			return [];
+		case 'dangling':
+			return layers.filter(layer => origin(layer) === 'built');
+		case 'all-intermediate':
+			return layers.filter(layer => origin(layer) !== 'base');
+	}
+};
+
+// Whether an image ID is the given full or truncated image ID
+const isImage = (imageId: string, id: string) =>
+	imageId === id || _.startsWith(imageId.replace(/^sha256:/, ''), id);
+
+const isTagged = (info: Dockerode.ImageInspectInfo) =>
+	_.some(info.RepoTags, tag => tag !== '<none>:<none>') ||
+	!_.isEmpty(info.RepoDigests);
+
+/**
+ * Remove images of a build, newest first, as long as they are not in use:
+ * images that are tagged (or were pulled from a registry), that other
+ * images are built from, or that containers use are skipped, as is the
+ * image to keep. As the images are removed newest first, the images that
+ * were only used by removed images are removed too.
+ *
+ * @param docker The docker daemon to use
+ * @param layers The images to remove, in the order they were built
+ * @param keep The ID of an image to keep, e.g. the built image
+ * @returns Promise of the images that were removed
+ */
+export const removeImages = (
+	docker: Dockerode,
+	layers: string[],
+	keep?: string,
+): Bluebird<string[]> => {
+	if (layers.length === 0) {
+		return Bluebird.resolve([]);
+	}
+	const removed: string[] = [];
+	const removedIds = new Set<string>();
+	return Bluebird.resolve(docker.listImages({ all: true })).then(
+		(images: Dockerode.ImageInfo[]) =>
+			Bluebird.each(_.uniq(_.reverse(_.clone(layers))), layer => {
+				const image = docker.getImage(layer);
+				return Bluebird.resolve(image.inspect())
+					.then((info: Dockerode.ImageInspectInfo) => {
+						const hasChildren = _.some(
+							images,
+							other => other.ParentId === info.Id && !removedIds.has(other.Id),
+						);
+						if (
+							isTagged(info) ||
+							hasChildren ||
+							(keep !== undefined && isImage(info.Id, keep))
+						) {
+							return;
+						}
+						// The daemon refuses to remove images used by containers
+						return Bluebird.resolve(image.remove({ noprune: true })).then(
+							() => {
+								removed.push(layer);
+								removedIds.add(info.Id);
+							},
+						);
+					})
+					.catchReturn(undefined);
+			}).return(removed),
+		// Without the list of images, it is not known which images are in use
+		() => removed,
+	);
+};
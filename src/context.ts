@@ -0,0 +1,312 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as crypto from 'crypto';
+import * as duplexify from 'duplexify';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import * as path from 'path';
+import * as tar from 'tar-stream';
+
+import { readDockerIgnore } from './dockerignore';
+import * as Utils from './utils';
+
+/**
+ * Options controlling how a directory is turned into a build context archive
+ */
+export interface ContextOptions {
+	/**
+	 * Set the owner of every archive entry to root (uid and gid 0), as the
+	 * docker CLI does, instead of preserving the owner of the files on disk
+	 */
+	normaliseOwnership?: boolean;
+	/**
+	 * Create a reproducible archive: entries are sorted by name, ownership
+	 * is normalised, and modification times later than `sourceDateEpoch`
+	 * are clamped to it, so that the same sources always produce the same
+	 * archive regardless of how and when they were checked out
+	 */
+	deterministic?: boolean;
+	/**
+	 * The epoch (in seconds) used to clamp modification times of
+	 * deterministic archives. Defaults to the SOURCE_DATE_EPOCH environment
+	 * variable, or 0 if it is not set
+	 */
+	sourceDateEpoch?: number;
+}
+
+/**
+ * An entry of a directory, as returned by Utils.directoryToEntries()
+ */
+export interface ContextEntry {
+	// Absolute path of the entry on disk
+	path: string;
+	// Result of lstat() on the path
+	stats: fs.Stats;
+}
+
+/**
+ * Create the tar header of a directory entry, preserving its permission
+ * bits, owner and modification time.
+ */
+const entryHeader = (
+	name: string,
+	stats: fs.Stats,
+	opts: ContextOptions,
+): tar.Headers => {
+	const normalise =
+		opts.normaliseOwnership === true || opts.deterministic === true;
+	let mtime = stats.mtime;
+	if (opts.deterministic) {
+		const epoch = new Date(getSourceDateEpoch(opts) * 1000);
+		if (mtime > epoch) {
+			mtime = epoch;
+		}
+	}
+	return {
+		name,
+		// Permission bits, including setuid, setgid and sticky
+		mode: stats.mode % 0o10000,
+		uid: normalise ? 0 : stats.uid,
+		gid: normalise ? 0 : stats.gid,
+		mtime,
+	};
+};
+
+const getSourceDateEpoch = (opts: ContextOptions): number => {
+	if (opts.sourceDateEpoch != null) {
+		return opts.sourceDateEpoch;
+	}
+	const epoch = parseInt(process.env.SOURCE_DATE_EPOCH || '', 10);
+	return isNaN(epoch) ? 0 : epoch;
+};
+
+const entryName = (root: string, entryPath: string): string =>
+	path.relative(root, entryPath).replace(/\\/g, '/');
+
+/**
+ * Add a single file to a tar archive, streaming its contents from disk.
+ * The returned promise resolves once the entry has been fully written to
+ * the archive, which only happens as fast as the archive is consumed.
+ */
+const packFile = (
+	pack: tar.Pack,
+	header: tar.Headers,
+	filePath: string,
+): Bluebird<void> => {
+	return new Bluebird<void>((resolve, reject) => {
+		const entry = pack.entry(header, err => (err ? reject(err) : resolve()));
+		fs.createReadStream(filePath)
+			.on('error', reject)
+			.pipe(entry);
+	});
+};
+
+/**
+ * Add an entry with no contents (directory, symlink, hardlink) to a tar
+ * archive.
+ */
+const packHeader = (pack: tar.Pack, header: tar.Headers): Bluebird<void> => {
+	return Bluebird.fromCallback(callback => {
+		pack.entry(header, callback);
+	});
+};
+
+/**
+ * Write the given directory entries to a tar archive, one entry at a time,
+ * in the same way as the docker CLI creates build contexts: file modes,
+ * owners and modification times are preserved, symlinks are stored as
+ * symlinks rather than being followed, files that are hardlinked to a
+ * previous entry are stored as hardlinks, and (empty) directories have
+ * their own entries. Sockets and device files are skipped. With the
+ * `deterministic` option, the archive only depends on the entries' names,
+ * contents and modes.
+ *
+ * File contents are streamed, so memory usage does not depend on the size of
+ * the files, and backpressure from the consumer of the archive is respected.
+ * The archive is finalized once all entries have been written.
+ *
+ * @param pack The tar archive to write to
+ * @param dirPath Root directory of the build context; entry names are
+ * relative to it
+ * @param entries The entries to add to the archive
+ * @param opts Options controlling the archive headers
+ * @returns Promise that resolves when the archive has been finalized
+ */
+export const packEntries = (
+	pack: tar.Pack,
+	dirPath: string,
+	entries: ContextEntry[],
+	opts: ContextOptions = {},
+): Bluebird<void> => {
+	const root = path.resolve(dirPath);
+	// Map of device:inode to the name of the first entry that used it
+	const inodes = new Map<string, string>();
+	if (opts.deterministic) {
+		entries = _.sortBy(entries, e => entryName(root, e.path));
+	}
+
+	return Bluebird.each(entries, ({ path: entryPath, stats }) => {
+		const name = entryName(root, entryPath);
+		const header = entryHeader(name, stats, opts);
+
+		if (stats.isDirectory()) {
+			// Directory names end with a slash in docker's archives
+			return packHeader(pack, {
+				...header,
+				name: `${name}/`,
+				type: 'directory',
+			});
+		}
+		if (stats.isSymbolicLink()) {
+			return Bluebird.resolve(fs.readlink(entryPath)).then(linkname =>
+				packHeader(pack, { ...header, type: 'symlink', linkname }),
+			);
+		}
+		if (!stats.isFile()) {
+			return;
+		}
+		if (stats.nlink > 1) {
+			const inode = `${stats.dev}:${stats.ino}`;
+			const linkname = inodes.get(inode);
+			if (linkname !== undefined) {
+				return packHeader(pack, { ...header, type: 'link', linkname });
+			}
+			inodes.set(inode, name);
+		}
+		return packFile(
+			pack,
+			{ ...header, type: 'file', size: stats.size },
+			entryPath,
+		);
+	}).then(() => {
+		pack.finalize();
+	});
+};
+
+/**
+ * List the entries of a directory that belong in its build context, i.e.
+ * those not excluded by its .dockerignore file.
+ *
+ * @param dirPath Root directory of the build context
+ * @param dockerfile Path of the Dockerfile relative to dirPath
+ */
+export const listDirectory = (
+	dirPath: string,
+	dockerfile?: string,
+): Bluebird<ContextEntry[]> => {
+	return readDockerIgnore(dirPath, dockerfile).then(matcher =>
+		Utils.directoryToEntries(dirPath, matcher),
+	);
+};
+
+/**
+ * Calculate a digest of the build context of a directory, without building
+ * it. The digest is that of the deterministic archive which would be sent to
+ * the docker daemon, so it only changes when the contents of the build
+ * context change, and can be used to decide whether an image needs to be
+ * rebuilt.
+ *
+ * @param dirPath Root directory of the build context
+ * @param dockerfile Path of the Dockerfile relative to dirPath
+ * @param contextOpts Options controlling how the archive is created; the
+ * `deterministic` option is always set
+ * @returns Promise of the digest, in the form 'sha256:<hex>'
+ */
+export const contextDigest = (
+	dirPath: string,
+	dockerfile?: string,
+	contextOpts: ContextOptions = {},
+): Bluebird<string> => {
+	return listDirectory(dirPath, dockerfile).then(
+		entries =>
+			new Bluebird<string>((resolve, reject) => {
+				const pack = tar.pack();
+				const hash = crypto.createHash('sha256');
+				pack
+					.on('data', (chunk: Buffer) => hash.update(chunk))
+					.on('end', () => resolve(`sha256:${hash.digest('hex')}`));
+				packEntries(pack, dirPath, entries, {
+					...contextOpts,
+					deterministic: true,
+				}).catch(reject);
+			}),
+	);
+};
+
+/**
+ * A file to add to a build context, e.g. by a preBuild hook
+ */
+export interface InjectedFile {
+	// Path of the file in the build context, e.g. 'config/app.json'
+	name: string;
+	contents: Buffer;
+	// Permission bits of the file, 0o644 by default
+	mode?: number;
+}
+
+const normaliseName = (name: string): string => name.replace(/^(\.?\/)+/, '');
+
+/**
+ * Create a stream which adds files to the build context archive written to
+ * it, and outputs the resulting archive. The entries of the archive are
+ * copied as they are, except those with the name of an injected file, which
+ * replaces them; the injected files are added at the end of the archive,
+ * with a modification time of 0. The archive must not be compressed.
+ *
+ * @param files The files to add, the last one winning if several have the
+ * same name
+ * @returns A duplex stream from the original archive to the new one
+ */
+export const injectFiles = (files: InjectedFile[]): NodeJS.ReadWriteStream => {
+	const injected = new Map(
+		files.map(
+			file => [normaliseName(file.name), file] as [string, InjectedFile],
+		),
+	);
+	const extract = tar.extract();
+	const pack = tar.pack();
+
+	extract.on('entry', (header, stream, next) => {
+		if (injected.has(normaliseName(header.name))) {
+			stream.on('end', next).resume();
+		} else {
+			stream.pipe(pack.entry(header, next));
+		}
+	});
+	extract.on('finish', () => {
+		Bluebird.each(Array.from(injected), ([name, file]) =>
+			Bluebird.fromCallback(callback => {
+				pack.entry(
+					{
+						name,
+						mode: file.mode !== undefined ? file.mode : 0o644,
+						mtime: new Date(0),
+						type: 'file',
+					},
+					file.contents,
+					callback,
+				);
+			}),
+		).then(
+			() => pack.finalize(),
+			(error: Error) => pack.destroy(error),
+		);
+	});
+
+	return duplexify(extract, pack);
+};
@@ -0,0 +1,697 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import * as path from 'path';
+
+import { DockerfileError } from './errors';
+
+/**
+ * A heredoc of a RUN, COPY or ADD instruction, e.g. `RUN <<EOF`
+ */
+export interface Heredoc {
+	// The delimiter, e.g. 'EOF'
+	name: string;
+	content: string;
+	// Whether variables are expanded in the content (unquoted delimiter)
+	expand: boolean;
+	// Whether leading tabs are stripped from the lines (`<<-EOF`)
+	chomp: boolean;
+}
+
+/**
+ * An instruction of a Dockerfile
+ */
+export interface Instruction {
+	// The instruction keyword, in upper case, e.g. 'RUN'
+	keyword: string;
+	// The arguments, without the flags, with line continuations removed
+	args: string;
+	// The arguments of the exec (JSON array) form, e.g. `CMD ["node"]`
+	json?: string[];
+	// Flags, e.g. `{ from: 'build' }` for `COPY --from=build ...`; flags
+	// without a value are set to ''
+	flags: { [name: string]: string };
+	heredocs: Heredoc[];
+	// The lines the instruction starts and ends at, from 1
+	line: number;
+	endLine: number;
+	// The instruction of an ONBUILD instruction
+	trigger?: Instruction;
+}
+
+/**
+ * A build stage of a Dockerfile, started by a FROM instruction
+ */
+export interface Stage {
+	index: number;
+	// The `AS name` of the stage, in lower case
+	name?: string;
+	// The base image or stage, after the substitution of the global ARGs
+	image: string;
+	// The `--platform` flag, after the substitution of the global ARGs
+	platform?: string;
+	// The index of the stage that `image` refers to, if any
+	baseStage?: number;
+	from: Instruction;
+	// The instructions of the stage, after the FROM instruction
+	instructions: Instruction[];
+}
+
+/**
+ * Options of the Dockerfile parser
+ */
+export interface ParseOptions {
+	// Whether the Dockerfile is built with BuildKit, whose Dockerfile frontend
+	// supports heredocs, rather than with the classic builder. Defaults to
+	// false, as the `version` build option does
+	buildkit?: boolean;
+}
+
+/**
+ * The AST of a Dockerfile
+ */
+export interface Dockerfile {
+	// Parser directives, e.g. `{ syntax: 'docker/dockerfile:1' }`
+	directives: { [name: string]: string };
+	escapeChar: string;
+	// The ARG instructions before the first FROM instruction
+	globalArgs: Instruction[];
+	instructions: Instruction[];
+	stages: Stage[];
+}
+
+const keywords = [
+	'ADD',
+	'ARG',
+	'CMD',
+	'COPY',
+	'ENTRYPOINT',
+	'ENV',
+	'EXPOSE',
+	'FROM',
+	'HEALTHCHECK',
+	'LABEL',
+	'MAINTAINER',
+	'ONBUILD',
+	'RUN',
+	'SHELL',
+	'STOPSIGNAL',
+	'USER',
+	'VOLUME',
+	'WORKDIR',
+];
+const heredocKeywords = ['ADD', 'COPY', 'RUN'];
+const jsonKeywords = [
+	'ADD',
+	'CMD',
+	'COPY',
+	'ENTRYPOINT',
+	'RUN',
+	'SHELL',
+	'VOLUME',
+];
+
+// The parser directives that docker knows about; other ones are comments
+const directiveNames = ['syntax', 'escape', 'check'];
+const directivePattern = /^#\s*([a-zA-Z][a-zA-Z0-9]*)\s*=\s*(.*?)\s*$/;
+// A shell word starting a heredoc, e.g. `<<EOF`, `<<-"EOF"` or `2<<EOF`,
+// but not `<<<` or a `<<` shift operator
+const heredocPattern = /^\d*<<(-?)([^<]+)$/;
+const stageNamePattern = /^[a-z][a-z0-9\-_.]*$/;
+const argNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+/**
+ * Substitute the variables in a string, as the docker builder does for ARG
+ * and ENV variables. `$NAME`, `${NAME}`, `${NAME:-default}`,
+ * `${NAME-default}`, `${NAME:+alternative}` and `${NAME+alternative}` are
+ * supported, and `$` can be escaped with the escape character.
+ *
+ * @param text The text to substitute the variables of
+ * @param vars The values of the variables; missing variables are unset
+ * @param escapeChar The escape character of the Dockerfile
+ * @returns The text, with the variables substituted
+ */
+export const substituteVariables = (
+	text: string,
+	vars: { [name: string]: string | undefined },
+	escapeChar = '\\',
+): string => {
+	let result = '';
+	let i = 0;
+	while (i < text.length) {
+		const c = text[i];
+		if (c === escapeChar && text[i + 1] === '$') {
+			result += '$';
+			i += 2;
+		} else if (c === '$' && text[i + 1] === '{') {
+			const end = text.indexOf('}', i + 2);
+			const expr = end < 0 ? '' : text.slice(i + 2, end);
+			const match = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:(:?[\-+])(.*))?$/.exec(expr);
+			if (!match) {
+				// Not a variable, keep it as it is
+				result += c;
+				i++;
+				continue;
+			}
+			const [, name, modifier, word] = match;
+			const value = vars[name];
+			const isSet = modifier && modifier[0] === ':' ? !!value : value != null;
+			switch (modifier && modifier[modifier.length - 1]) {
+				case '-':
+					result += isSet ? value : substituteVariables(word, vars, escapeChar);
+					break;
+				case '+':
+					result += isSet ? substituteVariables(word, vars, escapeChar) : '';
+					break;
+				default:
+					result += value || '';
+			}
+			i = end + 1;
+		} else if (c === '$' && /[a-zA-Z_]/.test(text[i + 1] || '')) {
+			const name = /^[a-zA-Z_][a-zA-Z0-9_]*/.exec(text.slice(i + 1))![0];
+			result += vars[name] || '';
+			i += name.length + 1;
+		} else {
+			result += c;
+			i++;
+		}
+	}
+	return result;
+};
+
+/**
+ * Split the leading `--name=value` flags off the arguments of an
+ * instruction
+ */
+const parseFlags = (
+	args: string,
+	line: number,
+): { flags: { [name: string]: string }; rest: string } => {
+	const flags: { [name: string]: string } = {};
+	const flagPattern = /^--([^\s=]*)(?:=(\S*))?(?:\s+|$)/;
+	let rest = args;
+	for (
+		let match = flagPattern.exec(rest);
+		match;
+		match = flagPattern.exec(rest)
+	) {
+		if (match[1] === '') {
+			throw new DockerfileError('invalid flag "--"', line);
+		}
+		flags[match[1]] = match[2] || '';
+		rest = rest.slice(match[0].length);
+	}
+	return { flags, rest };
+};
+
+const parseJson = (args: string): string[] | undefined => {
+	if (!_.startsWith(args, '[')) {
+		return;
+	}
+	try {
+		const json = JSON.parse(args);
+		if (_.isArray(json) && _.every(json, _.isString)) {
+			return json;
+		}
+	} catch {
+		// Not valid JSON: the shell form is used, as by the docker builder
+	}
+};
+
+/**
+ * Split the arguments of an ARG instruction into names and default values
+ */
+const parseArgDeclarations = (
+	args: string,
+): Array<{ name: string; value?: string }> => {
+	const pattern = /([^\s=]+)(?:=("(?:[^"\\]|\\.)*"|'[^']*'|\S*))?/g;
+	const declarations: Array<{ name: string; value?: string }> = [];
+	for (let match = pattern.exec(args); match; match = pattern.exec(args)) {
+		const declaration: { name: string; value?: string } = { name: match[1] };
+		if (match[2] !== undefined) {
+			declaration.value = /^(["']).*\1$/.test(match[2])
+				? match[2].slice(1, -1)
+				: match[2];
+		}
+		declarations.push(declaration);
+	}
+	return declarations;
+};
+
+/**
+ * Check the arguments of an instruction, as the docker builder would
+ */
+const validateInstruction = (instruction: Instruction) => {
+	const { keyword, args, line } = instruction;
+	if (args === '' && instruction.heredocs.length === 0) {
+		throw new DockerfileError(
+			`${keyword} requires at least one argument`,
+			line,
+		);
+	}
+	switch (keyword) {
+		case 'FROM': {
+			const words = args.split(/\s+/);
+			if (
+				!(words.length === 1 || words.length === 3) ||
+				(words.length === 3 && words[1].toLowerCase() !== 'as')
+			) {
+				throw new DockerfileError(
+					'FROM requires either one argument, or three: FROM <image> AS <name>',
+					line,
+				);
+			}
+			if (
+				words.length === 3 &&
+				!stageNamePattern.test(words[2].toLowerCase())
+			) {
+				throw new DockerfileError(
+					`invalid name for build stage: "${words[2]}", name can't start with a number or contain symbols`,
+					line,
+				);
+			}
+			break;
+		}
+		case 'ARG':
+			for (const { name } of parseArgDeclarations(args)) {
+				if (!argNamePattern.test(name)) {
+					throw new DockerfileError(`invalid ARG name: "${name}"`, line);
+				}
+			}
+			break;
+		case 'ONBUILD': {
+			const trigger = instruction.trigger!;
+			if (_.includes(['FROM', 'ONBUILD', 'MAINTAINER'], trigger.keyword)) {
+				throw new DockerfileError(
+					`${trigger.keyword} isn't allowed as an ONBUILD trigger`,
+					line,
+				);
+			}
+			break;
+		}
+		case 'SHELL':
+			if (instruction.json === undefined) {
+				throw new DockerfileError(
+					'SHELL requires the arguments to be in JSON form',
+					line,
+				);
+			}
+			break;
+	}
+};
+
+/**
+ * Split text into shell words, as the shell would, but keeping the quotes
+ * and escape characters of the words
+ */
+const shellWords = (text: string, escapeChar: string): string[] => {
+	const words: string[] = [];
+	let word = '';
+	let quote: string | undefined;
+	for (let i = 0; i < text.length; i++) {
+		const c = text[i];
+		if (c === escapeChar && quote !== "'" && i + 1 < text.length) {
+			word += c + text[++i];
+		} else if (quote !== undefined) {
+			word += c;
+			if (c === quote) {
+				quote = undefined;
+			}
+		} else if (/\s/.test(c)) {
+			if (word !== '') {
+				words.push(word);
+				word = '';
+			}
+		} else {
+			word += c;
+			if (c === '"' || c === "'") {
+				quote = c;
+			}
+		}
+	}
+	if (word !== '') {
+		words.push(word);
+	}
+	return words;
+};
+
+/**
+ * Find the heredocs started by the arguments of an instruction. As in
+ * BuildKit, a heredoc is started by a whole shell word, and its content is
+ * not expanded if its delimiter is quoted.
+ */
+const findHeredocs = (args: string, escapeChar: string): Heredoc[] => {
+	const heredocs: Heredoc[] = [];
+	for (const word of shellWords(args, escapeChar)) {
+		const match = heredocPattern.exec(word);
+		if (!match) {
+			continue;
+		}
+		const name = match[2].replace(/["']/g, '');
+		if (name === '' || /\s/.test(name)) {
+			continue;
+		}
+		heredocs.push({
+			name,
+			content: '',
+			expand: name === match[2],
+			chomp: match[1] === '-',
+		});
+	}
+	return heredocs;
+};
+
+/**
+ * Whether heredocs are supported by the Dockerfile frontend: they are not by
+ * the classic builder, and they are by BuildKit's docker/dockerfile frontend
+ * from version 1.4 (1.3 for its labs channel), which BuildKit builds with
+ * unless a syntax directive names another frontend. Custom frontends are
+ * assumed to support them.
+ */
+const supportsHeredocs = (
+	syntax: string | undefined,
+	buildkit: boolean,
+): boolean => {
+	if (!buildkit) {
+		return false;
+	}
+	const frontend =
+		syntax !== undefined
+			? /^(?:docker\.io\/)?docker\/dockerfile(?::([^@]+))?(?:@|$)/.exec(syntax)
+			: null;
+	if (frontend === null || frontend[1] === undefined) {
+		return true;
+	}
+	const version = /^(\d+)(?:\.(\d+))?/.exec(frontend[1]);
+	if (version === null) {
+		// e.g. 'latest' or 'labs'
+		return true;
+	}
+	const major = parseInt(version[1], 10);
+	// `1` is the latest 1.x version
+	const minor = version[2] !== undefined ? parseInt(version[2], 10) : Infinity;
+	return (
+		major > 1 ||
+		(major === 1 && minor >= (_.endsWith(frontend[1], '-labs') ? 3 : 4))
+	);
+};
+
+/**
+ * Parse the text of an instruction (with line continuations removed)
+ */
+const parseInstruction = (
+	text: string,
+	line: number,
+	endLine: number,
+	strict: boolean,
+): Instruction => {
+	const match = /^\s*(\S+)\s*([\s\S]*?)\s*$/.exec(text)!;
+	const keyword = match[1].toUpperCase();
+	if (!_.includes(keywords, keyword) && strict) {
+		throw new DockerfileError(`unknown instruction: ${match[1]}`, line);
+	}
+	const { flags, rest } = parseFlags(match[2], line);
+	const instruction: Instruction = {
+		keyword,
+		args: rest,
+		flags,
+		heredocs: [],
+		line,
+		endLine,
+	};
+	if (keyword === 'ONBUILD' && rest !== '') {
+		instruction.trigger = parseInstruction(rest, line, endLine, strict);
+	}
+	if (_.includes(jsonKeywords, keyword)) {
+		const json = parseJson(rest);
+		if (json !== undefined) {
+			instruction.json = json;
+		}
+	}
+	return instruction;
+};
+
+/**
+ * Parse a Dockerfile into its instructions and build stages. The Dockerfile
+ * is checked as the docker builder would check it, so that a build can fail
+ * before the build context is sent to the docker daemon.
+ *
+ * Line continuations, comments, parser directives (including `escape`),
+ * heredocs, the exec (JSON) form and multi-stage builds are supported. The
+ * global ARGs are substituted in the FROM instructions, as the docker
+ * builder does.
+ *
+ * @param content The contents of the Dockerfile
+ * @param buildArgs The build args of the build, overriding the defaults of
+ * the ARG instructions; null values, which the daemon takes from its
+ * environment, do not
+ * @param options Options of the parser, e.g. whether heredocs are supported
+ * @returns The parsed Dockerfile
+ * @throws DockerfileError with the line number of the problem
+ */
+export const parseDockerfile = (
+	content: string,
+	buildArgs: { [name: string]: string | null } = {},
+	options: ParseOptions = {},
+): Dockerfile => {
+	const lines = content.split(/\r?\n/);
+	const directives: { [name: string]: string } = {};
+
+	// Parser directives, which must come first: the first line which is not
+	// a known directive, e.g. a comment, ends them
+	let i = 0;
+	for (; i < lines.length; i++) {
+		const match = directivePattern.exec(lines[i]);
+		if (!match || !_.includes(directiveNames, match[1].toLowerCase())) {
+			break;
+		}
+		const name = match[1].toLowerCase();
+		if (directives[name] !== undefined) {
+			throw new DockerfileError(
+				`only one ${name} parser directive can be used`,
+				i + 1,
+			);
+		}
+		directives[name] = match[2];
+	}
+	const escapeChar = directives.escape || '\\';
+	if (escapeChar !== '\\' && escapeChar !== '`') {
+		throw new DockerfileError(
+			`invalid escape token '${escapeChar}' does not match ` + '` or \\',
+			_.findIndex(lines, l => /^#\s*escape\s*=/i.test(l)) + 1,
+		);
+	}
+	// Dockerfiles built with a custom BuildKit frontend can have instructions
+	// that the docker builder does not know about
+	const strict =
+		directives.syntax === undefined ||
+		/^(?:docker\.io\/)?docker\/dockerfile(?:[:@]|$)/.test(directives.syntax);
+	const heredocs = supportsHeredocs(
+		directives.syntax,
+		options.buildkit === true,
+	);
+
+	const isComment = (l: string) => _.startsWith(_.trimStart(l), '#');
+	const continues = (l: string) => _.endsWith(_.trimEnd(l), escapeChar);
+
+	const instructions: Instruction[] = [];
+	while (i < lines.length) {
+		if (_.trim(lines[i]) === '' || isComment(lines[i])) {
+			i++;
+			continue;
+		}
+
+		// Join the continuation lines, skipping comments and empty lines
+		const line = i + 1;
+		let text = '';
+		let current = lines[i++];
+		while (continues(current)) {
+			text += _.trimEnd(current).slice(0, -1);
+			while (
+				i < lines.length &&
+				(_.trim(lines[i]) === '' || isComment(lines[i]))
+			) {
+				i++;
+			}
+			if (i >= lines.length) {
+				current = '';
+				break;
+			}
+			current = lines[i++];
+		}
+		text += current;
+
+		const instruction = parseInstruction(text, line, i, strict);
+
+		// The heredocs start after the line of the instruction
+		if (
+			heredocs &&
+			_.includes(heredocKeywords, instruction.keyword) &&
+			instruction.json === undefined
+		) {
+			for (const heredoc of findHeredocs(instruction.args, escapeChar)) {
+				const strip = (l: string) =>
+					heredoc.chomp ? l.replace(/^\t+/, '') : l;
+				const contentLines: string[] = [];
+				while (i < lines.length && strip(lines[i]) !== heredoc.name) {
+					contentLines.push(strip(lines[i++]));
+				}
+				if (i >= lines.length) {
+					throw new DockerfileError(
+						`unterminated heredoc <<${heredoc.name}`,
+						line,
+					);
+				}
+				i++;
+				heredoc.content = contentLines.map(l => `${l}\n`).join('');
+				instruction.heredocs.push(heredoc);
+			}
+			instruction.endLine = i;
+		}
+
+		validateInstruction(instruction);
+		instructions.push(instruction);
+	}
+
+	// Split the instructions into stages
+	const globalArgs: Instruction[] = [];
+	const stages: Stage[] = [];
+	const argValues: { [name: string]: string | undefined } = {};
+	for (const instruction of instructions) {
+		if (instruction.keyword === 'FROM') {
+			const words = instruction.args.split(/\s+/);
+			const image = substituteVariables(words[0], argValues, escapeChar);
+			if (image === '') {
+				throw new DockerfileError(
+					`base name (${words[0]}) should not be blank`,
+					instruction.line,
+				);
+			}
+			const stage: Stage = {
+				index: stages.length,
+				image,
+				from: instruction,
+				instructions: [],
+			};
+			if (words.length === 3) {
+				stage.name = words[2].toLowerCase();
+			}
+			if (instruction.flags.platform !== undefined) {
+				stage.platform = substituteVariables(
+					instruction.flags.platform,
+					argValues,
+					escapeChar,
+				);
+			}
+			const baseStage = _.find(stages, s => s.name === image.toLowerCase());
+			if (baseStage !== undefined) {
+				stage.baseStage = baseStage.index;
+			}
+			stages.push(stage);
+		} else if (stages.length > 0) {
+			_.last(stages)!.instructions.push(instruction);
+		} else if (instruction.keyword === 'ARG') {
+			globalArgs.push(instruction);
+			for (const { name, value } of parseArgDeclarations(instruction.args)) {
+				const buildArg = buildArgs[name];
+				argValues[name] = _.isString(buildArg)
+					? buildArg
+					: value !== undefined
+					? substituteVariables(value, argValues, escapeChar)
+					: undefined;
+			}
+		} else {
+			throw new DockerfileError(
+				`${instruction.keyword} instruction before the first FROM instruction`,
+				instruction.line,
+			);
+		}
+	}
+	if (stages.length === 0) {
+		throw new DockerfileError('the Dockerfile has no FROM instruction');
+	}
+
+	return { directives, escapeChar, globalArgs, instructions, stages };
+};
+
+const defaultDockerfileName = 'Dockerfile';
+
+/**
+ * Find the Dockerfile of a build context, as the docker daemon does: if no
+ * Dockerfile is given and there is no `Dockerfile`, a lowercase `dockerfile`
+ * is used if there is one.
+ *
+ * @param dirPath The directory of the build context
+ * @param dockerfile The `dockerfile` build option, if any
+ * @returns Promise of the path of the Dockerfile, relative to the directory
+ */
+export const findDockerfile = (
+	dirPath: string,
+	dockerfile?: string,
+): Bluebird<string> => {
+	if (dockerfile) {
+		return Bluebird.resolve(dockerfile);
+	}
+	const exists = (name: string) =>
+		Bluebird.resolve(fs.lstat(path.join(dirPath, name))).then(
+			() => true,
+			() => false,
+		);
+	const lowercase = defaultDockerfileName.toLowerCase();
+	return exists(defaultDockerfileName).then(found =>
+		found
+			? defaultDockerfileName
+			: exists(lowercase).then(lowercaseFound =>
+					lowercaseFound ? lowercase : defaultDockerfileName,
+			  ),
+	);
+};
+
+/**
+ * Read and parse the Dockerfile of a build context.
+ *
+ * @param dirPath The directory of the build context
+ * @param dockerfile The path of the Dockerfile, relative to the directory;
+ * found with findDockerfile if not given
+ * @param buildArgs The build args of the build
+ * @param options Options of the parser
+ * @returns Promise of the parsed Dockerfile, rejected with a
+ * DockerfileError if the Dockerfile is missing or invalid
+ */
+export const readDockerfile = (
+	dirPath: string,
+	dockerfile?: string,
+	buildArgs: { [name: string]: string | null } = {},
+	options: ParseOptions = {},
+): Bluebird<Dockerfile> => {
+	return findDockerfile(dirPath, dockerfile)
+		.then(name =>
+			Bluebird.resolve(fs.readFile(path.join(dirPath, name), 'utf8')).catch(
+				(error: NodeJS.ErrnoException) => {
+					if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+						throw new DockerfileError(
+							`Cannot locate specified Dockerfile: ${name}`,
+						);
+					}
+					throw error;
+				},
+			),
+		)
+		.then(content => parseDockerfile(content, buildArgs, options));
+};
@@ -0,0 +1,267 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import * as path from 'path';
+
+import { findDockerfile } from './dockerfile';
+
+/**
+ * A single, compiled .dockerignore pattern
+ */
+interface IgnorePattern {
+	// The cleaned pattern, without the leading '!'
+	pattern: string;
+	// True if the pattern started with a '!', i.e. re-includes files
+	exclusion: boolean;
+	// The path segments of the pattern, used for parent directory matching
+	dirs: string[];
+	regex: RegExp;
+}
+
+/**
+ * Equivalent of golang's filepath.Clean() for forward slash separated paths,
+ * which is what the docker CLI applies to both patterns and file paths.
+ */
+const cleanPath = (p: string): string => {
+	const cleaned = path.posix.normalize(p);
+	if (cleaned.length > 1 && cleaned.endsWith('/')) {
+		return cleaned.slice(0, -1);
+	}
+	return cleaned;
+};
+
+/**
+ * Convert a .dockerignore pattern to a regular expression, following the
+ * same translation as the docker daemon's fileutils package: '*' and '?'
+ * never match a path separator, '**' matches any number of directories
+ * (including none), and '\' escapes the next character.
+ */
+const patternToRegex = (pattern: string): RegExp => {
+	let regStr = '^';
+	for (let i = 0; i < pattern.length; i++) {
+		const ch = pattern[i];
+		if (ch === '*') {
+			if (pattern[i + 1] === '*') {
+				i++;
+				// Treat '**/' as '**'
+				if (pattern[i + 1] === '/') {
+					i++;
+				}
+				if (i + 1 >= pattern.length) {
+					// A trailing '**' matches everything
+					regStr += '.*';
+				} else {
+					regStr += '(.*/)?';
+				}
+			} else {
+				regStr += '[^/]*';
+			}
+		} else if (ch === '?') {
+			regStr += '[^/]';
+		} else if (ch === '\\') {
+			if (i + 1 < pattern.length) {
+				i++;
+				regStr += _.escapeRegExp(pattern[i]);
+			} else {
+				regStr += '\\\\';
+			}
+		} else if (ch === '[') {
+			// Character classes are passed through untouched, as they are
+			// by the docker daemon
+			const end = pattern.indexOf(']', i + 2);
+			if (end === -1) {
+				throw new Error(`Invalid .dockerignore pattern: ${pattern}`);
+			}
+			regStr += pattern.slice(i, end + 1);
+			i = end;
+		} else {
+			regStr += _.escapeRegExp(ch);
+		}
+	}
+	regStr += '$';
+	return new RegExp(regStr);
+};
+
+/**
+ * Parse the contents of a .dockerignore file into a list of patterns, in
+ * the format expected by IgnoreMatcher. Comments and blank lines are
+ * removed, and the patterns are cleaned in the same way as the docker CLI
+ * does it.
+ *
+ * @param content The contents of a .dockerignore file
+ * @returns The list of patterns, in file order
+ */
+export const parseDockerIgnore = (content: string): string[] => {
+	const patterns: string[] = [];
+	for (const line of content.split(/\r?\n/)) {
+		if (line.startsWith('#')) {
+			continue;
+		}
+		let pattern = line.trim();
+		if (pattern === '') {
+			continue;
+		}
+		let invert = false;
+		if (pattern[0] === '!') {
+			invert = true;
+			pattern = pattern.slice(1).trim();
+		}
+		if (pattern.length > 0) {
+			pattern = cleanPath(pattern);
+			if (pattern.length > 1 && pattern[0] === '/') {
+				pattern = pattern.slice(1);
+			}
+		}
+		patterns.push(invert ? `!${pattern}` : pattern);
+	}
+	return patterns;
+};
+
+/**
+ * This class decides whether a path relative to the root of a build context
+ * should be excluded from the context, using the semantics of the docker
+ * daemon: patterns are evaluated in order and the last matching one wins,
+ * patterns starting with '!' re-include previously excluded paths, and a
+ * pattern matching a directory also matches everything below it.
+ */
+export class IgnoreMatcher {
+	private patterns: IgnorePattern[];
+
+	/**
+	 * @param patterns List of patterns, as returned by parseDockerIgnore()
+	 */
+	public constructor(patterns: string[]) {
+		this.patterns = [];
+		for (let pattern of patterns) {
+			pattern = pattern.trim();
+			if (pattern === '') {
+				continue;
+			}
+			let exclusion = false;
+			if (pattern[0] === '!') {
+				if (pattern.length === 1) {
+					throw new Error('Illegal exclusion pattern: "!"');
+				}
+				exclusion = true;
+				pattern = pattern.slice(1);
+			}
+			pattern = cleanPath(pattern);
+			this.patterns.push({
+				pattern,
+				exclusion,
+				dirs: pattern.split('/'),
+				regex: patternToRegex(pattern),
+			});
+		}
+	}
+
+	/**
+	 * Create a matcher from the contents of a .dockerignore file. The
+	 * `keep` paths are always included in the build context, regardless
+	 * of the file contents, which is how the docker CLI treats the
+	 * Dockerfile and the .dockerignore file itself.
+	 */
+	public static fromDockerIgnore(
+		content: string,
+		keep: string[] = [],
+	): IgnoreMatcher {
+		const patterns = parseDockerIgnore(content);
+		return new IgnoreMatcher(
+			patterns.concat(keep.map(p => `!${cleanPath(p)}`)),
+		);
+	}
+
+	/**
+	 * @param relPath Path relative to the build context root, using
+	 * forward slashes as separators
+	 * @returns true if the path should be excluded from the build context
+	 */
+	public ignores(relPath: string): boolean {
+		const file = cleanPath(relPath);
+		const parentPath = path.posix.dirname(file);
+		const parentPathDirs = parentPath.split('/');
+
+		let matched = false;
+		for (const pattern of this.patterns) {
+			// Skip inclusions when already excluded, and exclusions when
+			// nothing has matched yet, as they cannot change the outcome
+			if (pattern.exclusion !== matched) {
+				continue;
+			}
+			let match = pattern.regex.test(file);
+			if (
+				!match &&
+				parentPath !== '.' &&
+				pattern.dirs.length <= parentPathDirs.length
+			) {
+				// Check whether the pattern matches one of the parent dirs
+				match = pattern.regex.test(
+					parentPathDirs.slice(0, pattern.dirs.length).join('/'),
+				);
+			}
+			if (match) {
+				matched = !pattern.exclusion;
+			}
+		}
+		return matched;
+	}
+
+	/**
+	 * Whether an ignored directory must still be walked, because an
+	 * exclusion pattern could re-include something below it.
+	 *
+	 * @param relDir Directory path relative to the build context root
+	 */
+	public mustWalk(relDir: string): boolean {
+		const dirSlash = `${cleanPath(relDir)}/`;
+		return _.some(
+			this.patterns,
+			p => p.exclusion && `${p.pattern}/`.startsWith(dirSlash),
+		);
+	}
+}
+
+/**
+ * Read the .dockerignore file at the root of a build context, if any, and
+ * create a matcher for it.
+ *
+ * @param dirPath Root directory of the build context
+ * @param dockerfile Path of the Dockerfile relative to dirPath, which is
+ * never ignored; found as the docker daemon finds it if not given
+ * @returns Promise of a matcher which excludes nothing if there is no
+ * .dockerignore file
+ */
+export const readDockerIgnore = (
+	dirPath: string,
+	dockerfile?: string,
+): Bluebird<IgnoreMatcher> => {
+	return Bluebird.all([
+		Bluebird.resolve(
+			fs.readFile(path.join(dirPath, '.dockerignore'), 'utf8'),
+		).catch((error: NodeJS.ErrnoException) => {
+			if (error.code === 'ENOENT') {
+				return '';
+			}
+			throw error;
+		}),
+		findDockerfile(dirPath, dockerfile),
+	]).then(([content, dockerfilePath]) =>
+		IgnoreMatcher.fromDockerIgnore(content, ['.dockerignore', dockerfilePath]),
+	);
+};
@@ -0,0 +1,388 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+
+import { FromTagInfo, ValidHook } from './plugin';
+import { BuildReport } from './report';
+import { BuildOutput } from './result';
+
+/**
+ * BuilderError: The base class of the errors of the builder, so that they
+ * can be told from other errors, e.g. those of hooks. The subclasses tell
+ * what went wrong:
+ *
+ * - the build was not started: BuildOptionsError, DockerfileError,
+ *   ImageReferenceError, MissingBaseImagesError, RegistryAuthError,
+ *   SecretError, BuildGraphError
+ * - the daemon could not be used: DaemonRequestError, DaemonOutputError
+ * - the daemon failed the build: DaemonBuildError, and its subclasses
+ *   RunStepError and BaseImageError (BaseImageNotFoundError,
+ *   BaseImageAuthError); Dockerfiles that the daemon cannot parse fail with
+ *   a DockerfileError
+ * - after the build: PushError
+ * - otherwise: BuildCancelledError, HookError
+ *
+ * BuildError, which the promise API rejects with, has the error that failed
+ * the build as `cause`.
+ */
+export class BuilderError extends Error {
+	public name = 'BuilderError';
+	// The error that caused this one, if any
+	public cause?: Error;
+}
+
+/**
+ * FailedStep: The step of a build that was running when it failed
+ */
+export interface FailedStep {
+	step: number;
+	// The instruction of the step, e.g. RUN
+	instruction: string;
+	// The step as printed by the daemon, e.g. `RUN npm install`
+	command: string;
+}
+
+/**
+ * BuildCancelledError: The error passed to the buildFailure hook when a
+ * build is cancelled through its abort signal
+ */
+export class BuildCancelledError extends BuilderError {
+	public name = 'BuildCancelledError';
+	// Images that were removed after the cancellation, if requested
+	public removedLayers: string[] = [];
+
+	/**
+	 * @param layers The layers built before the build was cancelled
+	 */
+	public constructor(public layers: string[]) {
+		super('Build cancelled');
+	}
+}
+
+/**
+ * BuildError: The error the promise API rejects with when a build fails.
+ * The error that failed the build is available as `cause`, e.g. a
+ * BuildCancelledError, together with what is known about the build.
+ */
+export class BuildError extends BuilderError implements BuildOutput {
+	public name = 'BuildError';
+	public layers: string[];
+	public fromTags: FromTagInfo[];
+	public removedLayers: string[];
+	public warnings: string[];
+	public durationMs: number;
+	public report: BuildReport;
+	public log: string;
+
+	/**
+	 * @param cause The error that failed the build
+	 * @param output What is known about the build
+	 */
+	public constructor(public cause: Error, output: BuildOutput) {
+		super(cause.message);
+		this.layers = output.layers;
+		this.fromTags = output.fromTags;
+		this.removedLayers = output.removedLayers;
+		this.warnings = output.warnings;
+		this.report = output.report;
+		this.durationMs = output.durationMs;
+		this.log = output.log;
+	}
+}
+
+/**
+ * BuildOptionsError: Thrown when the build options fail validation, before
+ * anything is sent to the docker daemon
+ */
+export class BuildOptionsError extends BuilderError {
+	public name = 'BuildOptionsError';
+
+	/**
+	 * @param option The name of the invalid option
+	 * @param message Description of the problem
+	 */
+	public constructor(public option: string, message: string) {
+		super(`Invalid build option "${option}": ${message}`);
+	}
+}
+
+/**
+ * BuildGraphError: Thrown when the images of a multi-image build cannot be
+ * put in an order to build them in
+ */
+export class BuildGraphError extends BuilderError {
+	public name = 'BuildGraphError';
+
+	/**
+	 * @param message Description of the problem
+	 * @param images The names of the images involved
+	 */
+	public constructor(message: string, public images: string[]) {
+		super(message);
+	}
+}
+
+/**
+ * DockerfileError: Thrown when a Dockerfile is missing or cannot be parsed
+ */
+export class DockerfileError extends BuilderError {
+	public name = 'DockerfileError';
+
+	/**
+	 * @param reason Description of the problem
+	 * @param line The line of the Dockerfile the problem is at, if any
+	 */
+	public constructor(public reason: string, public line?: number) {
+		super(
+			line !== undefined
+				? `Dockerfile parse error line ${line}: ${reason}`
+				: reason,
+		);
+	}
+}
+
+/**
+ * ImageReferenceError: Thrown for image references that cannot be parsed
+ */
+export class ImageReferenceError extends BuilderError {
+	public name = 'ImageReferenceError';
+
+	/**
+	 * @param reference The invalid reference
+	 * @param reason Description of the problem
+	 */
+	public constructor(public reference: string, public reason: string) {
+		super(`Invalid image reference "${reference}": ${reason}`);
+	}
+}
+
+/**
+ * MissingBaseImagesError: Thrown when base images of a Dockerfile do not
+ * exist locally, and are not to be pulled
+ */
+export class MissingBaseImagesError extends BuilderError {
+	public name = 'MissingBaseImagesError';
+
+	/**
+	 * @param references The normalised references of the missing images
+	 */
+	public constructor(public references: string[]) {
+		super(`Base images not found locally: ${references.join(', ')}`);
+	}
+}
+
+/**
+ * RegistryAuthError: Thrown when the credentials of a registry cannot be
+ * looked up, e.g. because a credential helper failed
+ */
+export class RegistryAuthError extends BuilderError {
+	public name = 'RegistryAuthError';
+
+	/**
+	 * @param registry The registry whose credentials were looked up
+	 * @param reason Description of the problem
+	 */
+	public constructor(public registry: string, public reason: string) {
+		super(`Failed to get the credentials of registry ${registry}: ${reason}`);
+	}
+}
+
+/**
+ * PushError: The error passed to the buildFailure hook when a built image
+ * cannot be tagged or pushed to its registry
+ */
+export class PushError extends BuilderError {
+	public name = 'PushError';
+
+	/**
+	 * @param reference The reference that was pushed
+	 * @param reason Description of the problem
+	 * @param imageId The ID of the built image, if known
+	 */
+	public constructor(
+		public reference: string,
+		public reason: string,
+		public imageId?: string,
+	) {
+		super(`Failed to push ${reference}: ${reason}`);
+	}
+}
+
+/**
+ * SecretError: Thrown when a secret of a build cannot be read
+ */
+export class SecretError extends BuilderError {
+	public name = 'SecretError';
+
+	/**
+	 * @param id The ID of the secret
+	 * @param reason Description of the problem
+	 */
+	public constructor(public id: string, public reason: string) {
+		super(`Failed to read secret ${id}: ${reason}`);
+	}
+}
+
+/**
+ * DaemonBuildError: The error passed to the buildFailure hook when the
+ * docker daemon reports that the build failed. The more specific failures
+ * are subclasses, e.g. RunStepError.
+ */
+export class DaemonBuildError extends BuilderError {
+	public name = 'DaemonBuildError';
+	// The step that was running when the build failed, if any
+	public step?: number;
+	public instruction?: string;
+	public command?: string;
+
+	/**
+	 * @param message The error message of the daemon
+	 * @param code The code of the error (errorDetail.code), if any, e.g. the
+	 * exit code of a failed RUN command
+	 * @param step The step that was running, if known
+	 */
+	public constructor(message: string, public code?: number, step?: FailedStep) {
+		super(message);
+		if (step !== undefined) {
+			this.step = step.step;
+			this.instruction = step.instruction;
+			this.command = step.command;
+		}
+	}
+}
+
+/**
+ * RunStepError: The command of a RUN instruction returned a non-zero code
+ */
+export class RunStepError extends DaemonBuildError {
+	public name = 'RunStepError';
+
+	/**
+	 * @param message The error message of the daemon
+	 * @param exitCode The exit code of the command
+	 * @param step The step that was running, if known
+	 */
+	public constructor(
+		message: string,
+		public exitCode: number,
+		step?: FailedStep,
+	) {
+		super(message, exitCode, step);
+	}
+}
+
+/**
+ * BaseImageError: The daemon could not pull a base image of the build
+ */
+export class BaseImageError extends DaemonBuildError {
+	public name = 'BaseImageError';
+
+	/**
+	 * @param message The error message of the daemon
+	 * @param reference The reference of the image, as far as it is known
+	 * @param code The code of the error, if any
+	 * @param step The step that was running, if known
+	 */
+	public constructor(
+		message: string,
+		public reference: string | undefined,
+		code?: number,
+		step?: FailedStep,
+	) {
+		super(message, code, step);
+	}
+}
+
+/**
+ * BaseImageNotFoundError: A base image of the build does not exist, or
+ * the registry does not tell whether it exists without credentials
+ */
+export class BaseImageNotFoundError extends BaseImageError {
+	public name = 'BaseImageNotFoundError';
+}
+
+/**
+ * BaseImageAuthError: The registry of a base image of the build refused
+ * the credentials of the daemon, or asked for some
+ */
+export class BaseImageAuthError extends BaseImageError {
+	public name = 'BaseImageAuthError';
+}
+
+/**
+ * DaemonRequestError: The build request could not be sent to the docker
+ * daemon, or the daemon refused it, or the connection was lost
+ */
+export class DaemonRequestError extends BuilderError {
+	public name = 'DaemonRequestError';
+	// The HTTP status of the response of the daemon, if it responded
+	public statusCode?: number;
+	// The system error code, e.g. ECONNREFUSED, if the connection failed
+	public errno?: string;
+
+	/**
+	 * @param cause The error of the request
+	 */
+	public constructor(
+		public cause: Error & { statusCode?: number; code?: string },
+	) {
+		super(`Request to the docker daemon failed: ${cause.message}`);
+		if (_.isNumber(cause.statusCode)) {
+			this.statusCode = cause.statusCode;
+		}
+		if (_.isString(cause.code)) {
+			this.errno = cause.code;
+		}
+	}
+}
+
+/**
+ * HookError: The error passed to the buildFailure hook when a hook, e.g.
+ * buildStream or buildEvent, threw or rejected
+ */
+export class HookError extends BuilderError {
+	public name = 'HookError';
+
+	/**
+	 * @param hook The hook that failed
+	 * @param cause The error of the hook
+	 */
+	public constructor(public hook: ValidHook, public cause: Error) {
+		super(`The ${hook} hook failed: ${cause.message}`);
+	}
+}
+
+/**
+ * DaemonOutputError: The error passed to the buildFailure hook when the
+ * output of the docker daemon is not a stream of JSON objects, e.g. because
+ * a proxy replaced it with an error page, or it was truncated
+ */
+export class DaemonOutputError extends BuilderError {
+	public name = 'DaemonOutputError';
+
+	/**
+	 * @param reason Description of the problem
+	 * @param excerpt The start of the malformed output
+	 */
+	public constructor(public reason: string, public excerpt: string) {
+		super(
+			`Malformed output from the docker daemon: ${reason}: ${JSON.stringify(
+				excerpt,
+			)}`,
+		);
+	}
+}
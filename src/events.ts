@@ -0,0 +1,276 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+
+import * as Utils from './utils';
+
+/**
+ * DaemonMessage: A JSON object of the docker daemon's build output
+ */
+export interface DaemonMessage {
+	stream?: string;
+	status?: string;
+	id?: string;
+	progress?: string;
+	progressDetail?: {
+		current?: number;
+		total?: number;
+	};
+	// An object for most messages, but a base64 encoded protobuf message for
+	// BuildKit build traces
+	aux?: any;
+	error?: string;
+	errorDetail?: {
+		code?: number;
+		message?: string;
+	};
+}
+
+/** A `Step N/M : INSTRUCTION ...` line marking the start of a build step */
+export interface StepStartEvent {
+	type: 'step-start';
+	step: number;
+	// Undefined for older daemons, which print `Step N : ...`
+	totalSteps?: number;
+	// The Dockerfile instruction keyword, e.g. 'RUN'
+	instruction: string;
+	// The full instruction, e.g. 'RUN apt-get update'
+	command: string;
+}
+
+/** Output of a build step that has no more specific event */
+export interface StepOutputEvent {
+	type: 'step-output';
+	text: string;
+}
+
+/** A ` ---> <sha>` line, reporting the image created by a build step */
+export interface LayerCreatedEvent {
+	type: 'layer-created';
+	layer: string;
+}
+
+/** Progress of a base image pull, e.g. downloading or extracting a layer */
+export interface PullProgressEvent {
+	type: 'pull-progress';
+	status: string;
+	// Layer id the status refers to, if any
+	id?: string;
+	current?: number;
+	total?: number;
+	// The daemon's textual progress bar
+	progress?: string;
+}
+
+/** Progress of the push of a built image, e.g. uploading a layer */
+export interface PushProgressEvent {
+	type: 'push-progress';
+	// The normalised reference being pushed
+	reference: string;
+	status: string;
+	// Layer id the status refers to, if any
+	id?: string;
+	current?: number;
+	total?: number;
+	// The daemon's textual progress bar
+	progress?: string;
+}
+
+/** A built image was pushed to its registry */
+export interface ImagePushedEvent {
+	type: 'image-pushed';
+	reference: string;
+	// The digest of the manifest in the registry
+	digest: string;
+	// The size of the manifest
+	size?: number;
+}
+
+/** Images created by the build were removed, following the cleanup policy */
+export interface LayersRemovedEvent {
+	type: 'layers-removed';
+	layers: string[];
+}
+
+/** The ID of the built image, as reported by the daemon's aux message */
+export interface AuxImageIdEvent {
+	type: 'aux-image-id';
+	imageId: string;
+}
+
+/** A warning printed by the daemon, which does not fail the build */
+export interface WarningEvent {
+	type: 'warning';
+	message: string;
+	// Set for notices of deprecated features, e.g. the classic builder
+	deprecation?: boolean;
+}
+
+/** An error reported by the daemon, which fails the build */
+export interface ErrorEvent {
+	type: 'error';
+	message: string;
+	code?: number;
+}
+
+/**
+ * BuildEvent: A structured event parsed from the docker daemon's build
+ * output. The `type` field discriminates between the event kinds.
+ */
+export type BuildEvent =
+	| StepStartEvent
+	| StepOutputEvent
+	| LayerCreatedEvent
+	| PullProgressEvent
+	| PushProgressEvent
+	| ImagePushedEvent
+	| LayersRemovedEvent
+	| AuxImageIdEvent
+	| WarningEvent
+	| ErrorEvent;
+
+const stepPattern = /^Step\s+(\d+)(?:\/(\d+))?\s*:\s*((\S+).*?)\s*$/;
+const usingCachePattern = /^\s*--->\s*Using cache\s*$/;
+// Warnings are printed as is, or as the result of a step (` ---> [Warning]`)
+const warningPattern = /^\s*(?:-+>\s*)?\[warning\]\s*:?\s*(.*?)\s*$/i;
+const deprecationPattern = /^\s*DEPRECATED:\s*([\s\S]*?)\s*$/;
+
+/**
+ * Parse the text of a `stream` message into the matching event
+ */
+const parseStreamText = (text: string): BuildEvent => {
+	const stepMatch = stepPattern.exec(text);
+	if (stepMatch) {
+		const event: StepStartEvent = {
+			type: 'step-start',
+			step: parseInt(stepMatch[1], 10),
+			instruction: stepMatch[4].toUpperCase(),
+			command: stepMatch[3],
+		};
+		if (stepMatch[2] !== undefined) {
+			event.totalSteps = parseInt(stepMatch[2], 10);
+		}
+		return event;
+	}
+	const layer = Utils.extractLayer(text);
+	if (layer !== undefined) {
+		return { type: 'layer-created', layer };
+	}
+	const warningMatch = warningPattern.exec(text);
+	if (warningMatch) {
+		return { type: 'warning', message: warningMatch[1] };
+	}
+	const deprecationMatch = deprecationPattern.exec(text);
+	if (deprecationMatch) {
+		return {
+			type: 'warning',
+			message: deprecationMatch[1],
+			deprecation: true,
+		};
+	}
+	return { type: 'step-output', text };
+};
+
+/**
+ * Whether an event is the ` ---> Using cache` line, which the classic
+ * builder prints when a step is not run again as its result is in the cache
+ */
+export const isCacheHit = (event: BuildEvent): boolean =>
+	event.type === 'step-output' && usingCachePattern.test(event.text);
+
+/**
+ * Convert a JSON object of the docker daemon's build output into structured
+ * events. Most objects result in a single event, but objects that carry no
+ * information (e.g. empty progress updates) result in none.
+ *
+ * @param data A JSON object of the daemon's output
+ * @returns The events, in the order they should be reported
+ */
+export const parseDaemonMessage = (data: DaemonMessage): BuildEvent[] => {
+	const events: BuildEvent[] = [];
+	if (data.error != null || data.errorDetail != null) {
+		const errorDetail = data.errorDetail || {};
+		const event: ErrorEvent = {
+			type: 'error',
+			message: data.error || errorDetail.message || '',
+		};
+		if (errorDetail.code != null) {
+			event.code = errorDetail.code;
+		}
+		events.push(event);
+		return events;
+	}
+	if (_.isString(data.stream)) {
+		events.push(parseStreamText(data.stream));
+	}
+	if (_.isString(data.status)) {
+		const event: PullProgressEvent = {
+			type: 'pull-progress',
+			status: data.status,
+		};
+		if (data.id != null) {
+			event.id = data.id;
+		}
+		const detail = data.progressDetail || {};
+		if (detail.current != null) {
+			event.current = detail.current;
+		}
+		if (detail.total != null) {
+			event.total = detail.total;
+		}
+		if (data.progress != null) {
+			event.progress = data.progress;
+		}
+		events.push(event);
+	}
+	if (data.aux != null && _.isString(data.aux.ID)) {
+		events.push({ type: 'aux-image-id', imageId: data.aux.ID });
+	}
+	return events;
+};
+
+/**
+ * Convert a JSON object of the docker daemon's output of an image push into
+ * structured events: push progress, the digest of the pushed manifest and
+ * errors.
+ *
+ * @param reference The reference being pushed
+ * @param data A JSON object of the daemon's output
+ * @returns The events, in the order they should be reported
+ */
+export const parsePushMessage = (
+	reference: string,
+	data: DaemonMessage,
+): BuildEvent[] => {
+	if (data.aux != null && _.isString(data.aux.Digest)) {
+		const event: ImagePushedEvent = {
+			type: 'image-pushed',
+			reference,
+			digest: data.aux.Digest,
+		};
+		if (_.isNumber(data.aux.Size)) {
+			event.size = data.aux.Size;
+		}
+		return [event];
+	}
+	return parseDaemonMessage(data).map(
+		(event): BuildEvent =>
+			event.type === 'pull-progress'
+				? { ...event, type: 'push-progress', reference }
+				: event,
+	);
+};
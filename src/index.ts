@@ -16,6 +16,109 @@
  */
 import Builder from './builder';
 
-export { BuildHooks, FromTagInfo } from './plugin';
+export {
+	CredentialHelper,
+	DockerConfig,
+	execCredentialHelper,
+	readDockerConfig,
+	RegistryAuth,
+	RegistryAuthOptions,
+	RegistryConfig,
+	resolveRegistryAuth,
+	resolveRegistryConfig,
+} from './auth';
+export {
+	BaseImage,
+	BaseImageOptions,
+	listBaseImages,
+	resolveBaseImages,
+} from './baseimages';
+export { decodeTrace, StatusResponse } from './buildkit';
+export {
+	analyseCache,
+	CacheAnalysis,
+	CacheInvalidation,
+	CacheStatus,
+} from './cache';
+export { CleanupPolicy } from './cleanup';
+export { contextDigest, ContextOptions } from './context';
+export {
+	BaseImageAuthError,
+	BaseImageError,
+	BaseImageNotFoundError,
+	BuildCancelledError,
+	BuildError,
+	BuilderError,
+	BuildGraphError,
+	BuildOptionsError,
+	DaemonBuildError,
+	DaemonOutputError,
+	DaemonRequestError,
+	DockerfileError,
+	FailedStep,
+	HookError,
+	ImageReferenceError,
+	MissingBaseImagesError,
+	PushError,
+	RegistryAuthError,
+	RunStepError,
+	SecretError,
+} from './errors';
+export * from './events';
+export {
+	Dockerfile,
+	findDockerfile,
+	Heredoc,
+	Instruction,
+	parseDockerfile,
+	ParseOptions,
+	readDockerfile,
+	Stage,
+	substituteVariables,
+} from './dockerfile';
+export {
+	IgnoreMatcher,
+	parseDockerIgnore,
+	readDockerIgnore,
+} from './dockerignore';
+export {
+	BuildManyOptions,
+	BuildManyResult,
+	dockerfileBaseImages,
+	ImageBuild,
+	ImageBuildOutcome,
+} from './multibuild';
+export {
+	AbortSignalLike,
+	BuildDirOptions,
+	BuilderOptions,
+	BuildOptions,
+	BuildPromiseOptions,
+	BuildStreamOptions,
+	validateBuildOptions,
+} from './options';
+export {
+	classifyDaemonError,
+	getDockerDaemonBuildOutputParserStream,
+	splitJSONObjects,
+} from './parser';
+export {
+	BuildEndInfo,
+	BuildHooks,
+	FromTagInfo,
+	PreBuildContext,
+	PushedImage,
+} from './plugin';
+export {
+	parseRecording,
+	readRecording,
+	RecordedMessage,
+	RecordingTarget,
+	ReplayOptions,
+} from './recording';
+export { ImageReference, parseImageReference } from './reference';
+export { BuildReport, formatReport, StepReport } from './report';
+export { SecretOptions } from './secrets';
+export { BuildOutput, BuildResult } from './result';
 export { Builder };
 export default Builder;
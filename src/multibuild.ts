@@ -0,0 +1,231 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import * as path from 'path';
+
+import { listBaseImages } from './baseimages';
+import { findDockerfile, parseDockerfile, ParseOptions } from './dockerfile';
+import { BuildGraphError, BuildOptionsError } from './errors';
+import { BuildPromiseOptions } from './options';
+import { BuildResult } from './result';
+
+/**
+ * ImageBuild: An image of a multi-image build
+ */
+export interface ImageBuild extends BuildPromiseOptions {
+	/**
+	 * Name of the image, as referred by the FROM instructions of the other
+	 * images. The image is tagged with it, unless `buildOpts.t` is set.
+	 */
+	name: string;
+	// Directory of the build context
+	context: string;
+}
+
+export interface BuildManyOptions {
+	// The maximum number of images built at the same time, an integer of at
+	// least 1; 1 by default
+	concurrency?: number;
+	// Called when the build of an image starts
+	onImageStart?: (name: string) => void;
+	// Called when the build of an image finishes, or is skipped
+	onImageFinish?: (outcome: ImageBuildOutcome) => void;
+}
+
+/**
+ * ImageBuildOutcome: The outcome of the build of an image of a multi-image
+ * build. Images are skipped when an image they depend on is not built.
+ */
+export interface ImageBuildOutcome {
+	name: string;
+	status: 'success' | 'failure' | 'skipped';
+	// Names of the images that this image is built FROM
+	dependencies: string[];
+	// The result of a successful build
+	result?: BuildResult;
+	// The BuildError of a failed build, or the reason a build was skipped
+	error?: Error;
+}
+
+export interface BuildManyResult {
+	// Whether every image was built successfully
+	success: boolean;
+	// The outcome of each image, in the order the builds were scheduled
+	images: ImageBuildOutcome[];
+}
+
+/**
+ * An image of a multi-image build, and the images it depends on
+ */
+export interface ImageBuildNode {
+	image: ImageBuild;
+	dependencies: string[];
+}
+
+// Add the default tag to image names that have none
+const normaliseName = (name: string): string =>
+	/:[^\/]*$/.test(name) ? name : `${name}:latest`;
+
+/**
+ * Read the external images that a Dockerfile is built FROM, as
+ * listBaseImages does: the global ARGs are substituted, and references to
+ * the stages of the Dockerfile are left out.
+ *
+ * @param dockerfile The contents of the Dockerfile
+ * @param buildArgs The build args of the build
+ * @param options Options of the Dockerfile parser
+ * @returns The images, as `repo:tag` (or `repo@digest`) strings
+ * @throws DockerfileError if the Dockerfile is invalid
+ */
+export const dockerfileBaseImages = (
+	dockerfile: string,
+	buildArgs: { [name: string]: string | null } = {},
+	options: ParseOptions = {},
+): string[] =>
+	_.uniq(
+		listBaseImages(parseDockerfile(dockerfile, buildArgs, options)).map(image =>
+			normaliseName(image.name),
+		),
+	);
+
+/**
+ * Work out which images of a multi-image build depend on which others,
+ * from the FROM instructions of their Dockerfiles, and sort them so that
+ * every image comes after the images it depends on. The order of the
+ * images is kept otherwise.
+ *
+ * @param images The images to build
+ * @returns Promise of the images in build order, with their dependencies,
+ * rejected with a BuildGraphError if image names are duplicated, or if
+ * images depend on each other in a cycle
+ */
+export const resolveBuildOrder = (
+	images: ImageBuild[],
+): Bluebird<ImageBuildNode[]> => {
+	// Image names and tags, normalised, to the name of the image
+	const names = new Map<string, string>();
+	return Bluebird.try(() => {
+		for (const image of images) {
+			const tags = _.castArray(
+				(image.buildOpts && image.buildOpts.t) || image.name,
+			);
+			for (const tag of [image.name, ...tags]) {
+				const other = names.get(normaliseName(tag));
+				if (other !== undefined && other !== image.name) {
+					throw new BuildGraphError(
+						`Images ${other} and ${image.name} have the same name`,
+						[other, image.name],
+					);
+				}
+				names.set(normaliseName(tag), image.name);
+			}
+		}
+	})
+		.then(() =>
+			Bluebird.map(images, image => {
+				const buildOpts = image.buildOpts || {};
+				const buildArgs = {
+					...buildOpts.buildargs,
+					...(image.secrets && image.secrets.buildargs),
+				};
+				// A missing or invalid Dockerfile fails the build of the image
+				// instead
+				return findDockerfile(image.context, buildOpts.dockerfile)
+					.then(dockerfile =>
+						fs.readFile(path.join(image.context, dockerfile), 'utf8'),
+					)
+					.then(content =>
+						dockerfileBaseImages(content, buildArgs, {
+							buildkit: buildOpts.version === '2',
+						}),
+					)
+					.catchReturn([] as string[])
+					.then(baseImages => ({
+						image,
+						dependencies: _.uniq(
+							_.compact(baseImages.map(baseImage => names.get(baseImage))),
+						).filter(name => name !== image.name),
+					}));
+			}),
+		)
+		.then(sortNodes);
+};
+
+// Sort the nodes topologically (Kahn's algorithm), keeping the given order
+// of nodes that do not depend on each other
+const sortNodes = (nodes: ImageBuildNode[]): ImageBuildNode[] => {
+	const sorted: ImageBuildNode[] = [];
+	const done = new Set<string>();
+	let remaining = nodes;
+	while (remaining.length > 0) {
+		const [ready, blocked] = _.partition(remaining, node =>
+			_.every(node.dependencies, d => done.has(d)),
+		);
+		if (ready.length === 0) {
+			const cycle = blocked.map(node => node.image.name);
+			throw new BuildGraphError(
+				`Images depend on each other in a cycle: ${cycle.join(', ')}`,
+				cycle,
+			);
+		}
+		for (const node of ready) {
+			sorted.push(node);
+			done.add(node.image.name);
+		}
+		remaining = blocked;
+	}
+	return sorted;
+};
+
+/**
+ * Create a function that runs the given tasks, with at most `concurrency`
+ * of them running at the same time.
+ *
+ * @throws BuildOptionsError if `concurrency` is not an integer of at least 1,
+ * as no task would ever run
+ */
+export const concurrencyLimiter = (concurrency: number) => {
+	if (!_.isInteger(concurrency) || concurrency < 1) {
+		throw new BuildOptionsError(
+			'concurrency',
+			'must be an integer greater than or equal to 1',
+		);
+	}
+	let running = 0;
+	const queue: Array<() => void> = [];
+	return <T>(task: () => PromiseLike<T>): Bluebird<T> => {
+		return new Bluebird<void>(resolve => {
+			if (running < concurrency) {
+				running++;
+				resolve();
+			} else {
+				queue.push(resolve);
+			}
+		})
+			.then(task)
+			.finally(() => {
+				const next = queue.shift();
+				if (next !== undefined) {
+					next();
+				} else {
+					running--;
+				}
+			});
+	};
+};
@@ -0,0 +1,395 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import { RegistryAuthOptions } from './auth';
+import { CleanupPolicy } from './cleanup';
+import { ContextOptions } from './context';
+import { BuildOptionsError, ImageReferenceError } from './errors';
+import { BuildEvent } from './events';
+import { RecordingTarget } from './recording';
+import { parseImageReference } from './reference';
+import { SecretOptions } from './secrets';
+
+/**
+ * AbortSignalLike: The subset of the DOM/Node.js AbortSignal interface that
+ * the builder relies on, so that AbortController polyfills can be used with
+ * versions of Node.js that do not provide it
+ */
+export interface AbortSignalLike {
+	readonly aborted: boolean;
+	addEventListener(type: 'abort', listener: () => void): void;
+	removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * BuildStreamOptions: Options of a build that are handled by the builder
+ * rather than being sent to the docker daemon
+ */
+export interface BuildStreamOptions {
+	/**
+	 * Cancel the build when the signal is aborted: the request to the docker
+	 * daemon is aborted, which stops the build, and the buildFailure hook is
+	 * called with a BuildCancelledError
+	 */
+	signal?: AbortSignalLike;
+	/**
+	 * After a cancellation, remove the untagged images that the build created
+	 * before it was cancelled, as the 'dangling' cleanup policy does; the
+	 * images it reused from the build cache are kept, unless the cleanup
+	 * policy is 'all-intermediate'
+	 */
+	removeLayersOnCancel?: boolean;
+	// The cleanup policy of the build, instead of the one of the builder
+	cleanup?: CleanupPolicy;
+	/**
+	 * Record the JSON objects output by the daemon, with the time they were
+	 * received at, to a file (given by its path) or a writable stream, so
+	 * that the build can be replayed with `replayBuild`
+	 */
+	record?: RecordingTarget;
+	/**
+	 * The registries that the build pulls images from, e.g. `['docker.io']`,
+	 * whose credentials are sent to the daemon. Directory builds find them in
+	 * the Dockerfile; for tar streams, the credentials of all the registries
+	 * explicitly configured in the builder are sent by default.
+	 */
+	registries?: string[];
+	/**
+	 * References to tag the built image with and to push it as, e.g.
+	 * `['myregistry:5000/org/img:1.0']`, with the credentials of the builder.
+	 * The push progress is reported to the buildEvent hook, and the pushed
+	 * images are passed to the buildSuccess hook.
+	 */
+	push?: string[];
+	/**
+	 * Images to use as sources of the build cache, e.g. the images of
+	 * earlier builds pushed to a registry. They are pulled with the
+	 * credentials of the builder before the build starts and added to the
+	 * `cachefrom` build option. Images that cannot be pulled (e.g. before
+	 * they have ever been pushed) are reported with a warning event.
+	 */
+	cacheFrom?: string[];
+	/**
+	 * Secret build args and values, which are replaced with `***` in the
+	 * build stream, in the events and in the errors passed to the hooks,
+	 * and in recordings
+	 */
+	secrets?: SecretOptions;
+}
+
+/**
+ * BuilderOptions: Options of a Builder, which apply to all of its builds
+ */
+export interface BuilderOptions {
+	// Where to find the credentials of private registries
+	auth?: RegistryAuthOptions;
+	/**
+	 * Which images created by a build to remove once it has succeeded or
+	 * failed; 'none' by default
+	 */
+	cleanup?: CleanupPolicy;
+}
+
+/**
+ * BuildDirOptions: Options of a directory build that are handled by the
+ * builder rather than being sent to the docker daemon
+ */
+export interface BuildDirOptions extends ContextOptions, BuildStreamOptions {}
+
+/**
+ * BuildPromiseOptions: Options of the promise API, which accepts both
+ * directories and tar streams as the build context
+ */
+export interface BuildPromiseOptions extends BuildDirOptions {
+	// Build options to pass to the docker daemon
+	buildOpts?: BuildOptions;
+	/**
+	 * Called with the build stream once the build has started, e.g. to display
+	 * the output of the daemon. The stream must not be written to.
+	 */
+	onStream?: (stream: NodeJS.ReadableStream) => void;
+	// Called for every structured event of the build, like the buildEvent hook
+	onEvent?: (event: BuildEvent) => void;
+}
+
+/**
+ * BuildOptions: The build options that are passed to the docker daemon, as
+ * the query parameters of its `/build` endpoint. Parameters of the endpoint
+ * that are not listed here, e.g. those of newer daemons, are passed to the
+ * daemon as they are
+ */
+export interface BuildOptions {
+	// Name and optional tag of the image, in the `name:tag` format
+	t?: string | string[];
+	// Path of the Dockerfile, relative to the root of the build context
+	dockerfile?: string;
+	// Values of the ARG instructions of the Dockerfile; null values are taken
+	// from the environment of the daemon
+	buildargs?: { [name: string]: string | null };
+	labels?: { [name: string]: string };
+	// The build stage to build, for multi-stage Dockerfiles
+	target?: string;
+	// Platform to build for, in the `os[/arch[/variant]]` format
+	platform?: string;
+	// Images to consider as cache sources
+	cachefrom?: string[];
+	// Pull the base images even if they are present locally
+	pull?: boolean;
+	nocache?: boolean;
+	squash?: boolean;
+	// Network mode of the RUN instructions, e.g. 'host' or 'none'
+	networkmode?: string;
+	// Extra `host:ip` entries of /etc/hosts, separated by commas
+	extrahosts?: string;
+	// Memory limit in bytes
+	memory?: number;
+	// Total memory limit (memory and swap) in bytes, or -1 for unlimited swap
+	memswap?: number;
+	// CPU shares (relative weight)
+	cpushares?: number;
+	// CPUs in which to allow execution, e.g. '0-3' or '0,1'
+	cpusetcpus?: string;
+	// Memory nodes in which to allow execution, e.g. '0-3' or '0,1'
+	cpusetmems?: string;
+	// Parent cgroup of the build containers
+	cgroupparent?: string;
+	// Isolation technology of the build containers, e.g. 'hyperv'
+	isolation?: string;
+	// Resource limits of the build containers
+	ulimits?: Array<{ Name: string; Soft: number; Hard: number }>;
+	// Length of a CPU period in microseconds
+	cpuperiod?: number;
+	// Microseconds of CPU time allowed in a CPU period
+	cpuquota?: number;
+	// Size of /dev/shm in bytes
+	shmsize?: number;
+	// Suppress the verbose build output
+	q?: boolean;
+	// Remove intermediate containers after a successful build
+	rm?: boolean;
+	// Always remove intermediate containers
+	forcerm?: boolean;
+	// Builder to use: '1' for the classic builder, '2' for BuildKit
+	version?: '1' | '2';
+	// URL of a remote build context (a git repository or a tar archive)
+	// that the daemon fetches itself
+	remote?: string;
+	// BuildKit: the exporters of the build result
+	outputs?: Array<{ Type: string; Attrs?: { [key: string]: string } }>;
+	// BuildKit: the ID of the client session, and of the build
+	session?: string;
+	buildid?: string;
+	// Registry credentials, sent as HTTP headers by dockerode
+	authconfig?: { [key: string]: any };
+	registryconfig?: { [key: string]: any };
+}
+
+type OptionValidator = (value: any) => string | undefined;
+
+const isString: OptionValidator = value =>
+	_.isString(value) ? undefined : 'must be a string';
+
+const isBoolean: OptionValidator = value =>
+	_.isBoolean(value) ? undefined : 'must be a boolean';
+
+const isObject: OptionValidator = value =>
+	_.isPlainObject(value) ? undefined : 'must be an object';
+
+const isStringMap = (allowNull = false): OptionValidator => value => {
+	if (!_.isPlainObject(value)) {
+		return 'must be an object of strings';
+	}
+	const invalid = _.findKey(
+		value,
+		v => !_.isString(v) && !(allowNull && v === null),
+	);
+	if (invalid !== undefined) {
+		return `the value of "${invalid}" must be a string${
+			allowNull ? ' or null' : ''
+		}`;
+	}
+};
+
+const isObjectArray: OptionValidator = value =>
+	_.isArray(value) && _.every(value, _.isPlainObject)
+		? undefined
+		: 'must be an array of objects';
+
+const isStringArray: OptionValidator = value =>
+	_.isArray(value) && _.every(value, _.isString)
+		? undefined
+		: 'must be an array of strings';
+
+const isInteger = (min: number): OptionValidator => value =>
+	_.isInteger(value) && value >= min
+		? undefined
+		: `must be an integer greater than or equal to ${min}`;
+
+const matches = (pattern: RegExp, format: string): OptionValidator => value =>
+	isString(value) ||
+	(pattern.test(value) ? undefined : `must be in the ${format} format`);
+
+// Image names are references with an optional tag, but without a digest
+const isImageName: OptionValidator = value => {
+	const names = _.isArray(value) ? value : [value];
+	for (const name of names) {
+		if (!_.isString(name)) {
+			return 'must be a string or an array of strings';
+		}
+		try {
+			if (parseImageReference(name).digest !== undefined) {
+				return `"${name}" is not a valid image name: images cannot be tagged with a digest`;
+			}
+		} catch (error) {
+			if (error instanceof ImageReferenceError) {
+				return `"${name}" is not a valid image name: ${error.reason}`;
+			}
+			throw error;
+		}
+	}
+};
+
+const isContextPath: OptionValidator = value => {
+	if (!_.isString(value) || value === '') {
+		return 'must be a non-empty string';
+	}
+	const normalised = path.posix.normalize(value.replace(/\\/g, '/'));
+	if (path.posix.isAbsolute(normalised) || /^\.\.(?:\/|$)/.test(normalised)) {
+		return `"${value}" must be a path inside the build context`;
+	}
+};
+
+const validators: {
+	[option in keyof Required<BuildOptions>]: OptionValidator;
+} = {
+	t: isImageName,
+	dockerfile: isContextPath,
+	buildargs: isStringMap(true),
+	labels: isStringMap(),
+	target: isString,
+	platform: matches(
+		/^[a-z0-9_\-]+(?:\/[a-z0-9_\-]+(?:\/[a-z0-9_.\-]+)?)?$/,
+		'os[/arch[/variant]]',
+	),
+	cachefrom: isStringArray,
+	pull: isBoolean,
+	nocache: isBoolean,
+	squash: isBoolean,
+	networkmode: isString,
+	extrahosts: matches(
+		/^[^\s:,]+:[^\s,]+(?:,[^\s:,]+:[^\s,]+)*$/,
+		'host:ip[,host:ip]',
+	),
+	memory: isInteger(0),
+	memswap: isInteger(-1),
+	cpushares: isInteger(0),
+	cpusetcpus: matches(/^\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*$/, '0-3 or 0,1'),
+	cpusetmems: matches(/^\d+(?:-\d+)?(?:,\d+(?:-\d+)?)*$/, '0-3 or 0,1'),
+	cgroupparent: isString,
+	isolation: isString,
+	ulimits: isObjectArray,
+	cpuperiod: isInteger(0),
+	cpuquota: isInteger(0),
+	shmsize: isInteger(0),
+	q: isBoolean,
+	rm: isBoolean,
+	forcerm: isBoolean,
+	version: value =>
+		value === '1' || value === '2' ? undefined : "must be '1' or '2'",
+	authconfig: isObject,
+	registryconfig: isObject,
+	remote: isString,
+	outputs: isObjectArray,
+	session: isString,
+	buildid: isString,
+};
+
+/**
+ * Compute the edit distance of two strings, to suggest the option that was
+ * meant when an unknown option is used
+ */
+const editDistance = (a: string, b: string): number => {
+	let previous = _.range(b.length + 1);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+			);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+};
+
+// Options whose names differ from a known option only by their case, or by
+// at most a third of their characters, are taken for typos of it; shorter
+// options are too close to `t` and `q` to tell
+const minTypoLength = 4;
+
+const suggestOption = (option: string): string | undefined => {
+	const lower = option.toLowerCase();
+	const maxDistance =
+		lower.length >= minTypoLength ? Math.floor(lower.length / 3) : 0;
+	return _.minBy(
+		_.keys(validators).filter(
+			name => name === lower || editDistance(name, lower) <= maxDistance,
+		),
+		name => editDistance(name, lower),
+	);
+};
+
+/**
+ * Check the build options before they are sent to the docker daemon, which
+ * would otherwise ignore misspelt options and only report invalid values
+ * after the build context has been uploaded. Unknown options that are close
+ * to a known option, e.g. `noCache`, are taken for typos, and other unknown
+ * options are passed to the daemon as they are.
+ *
+ * @param buildOpts The build options
+ *
+ * @throws BuildOptionsError for the first invalid option
+ */
+export const validateBuildOptions = (buildOpts: BuildOptions): void => {
+	if (!_.isPlainObject(buildOpts)) {
+		throw new BuildOptionsError('buildOpts', 'must be an object');
+	}
+	_.forEach(buildOpts as { [key: string]: any }, (value, option) => {
+		// Unset options are not sent to the daemon
+		if (value === undefined) {
+			return;
+		}
+		if (!_.has(validators, option)) {
+			const suggestion = suggestOption(option);
+			if (suggestion !== undefined) {
+				throw new BuildOptionsError(
+					option,
+					`unknown option, did you mean "${suggestion}"?`,
+				);
+			}
+			return;
+		}
+		const problem = validators[option as keyof typeof validators](value);
+		if (problem !== undefined) {
+			throw new BuildOptionsError(option, problem);
+		}
+	});
+};
@@ -0,0 +1,338 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as es from 'event-stream';
+import * as _ from 'lodash';
+import { Duplex, Readable, Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+import * as BuildKit from './buildkit';
+import {
+	BaseImageAuthError,
+	BaseImageError,
+	BaseImageNotFoundError,
+	DaemonBuildError,
+	DaemonOutputError,
+	DaemonRequestError,
+	DockerfileError,
+	FailedStep,
+	RunStepError,
+} from './errors';
+import * as Events from './events';
+import * as Utils from './utils';
+
+// How much of malformed output is quoted in errors
+const excerptLength = 100;
+
+/**
+ * Create a stream that splits the text output of the docker daemon into
+ * the JSON objects it is made of. Objects may be concatenated, separated by
+ * whitespace, or split across chunks at any point. Text that is not part of
+ * a JSON object (e.g. an HTML error page of a proxy) and output that ends
+ * in the middle of an object make the stream emit a DaemonOutputError, and
+ * stop parsing.
+ *
+ * @param onText Called with the malformed output, from where the problem
+ * starts to the end of what was received, before the error is emitted
+ * @returns A stream of the JSON objects, in object mode
+ */
+export const splitJSONObjects = (
+	onText: (text: string) => void = _.noop,
+): Transform => {
+	const decoder = new StringDecoder('utf8');
+	let buffer = '';
+	// Where the object being read starts in the buffer, if any
+	let start = -1;
+	// How far the buffer was scanned, and the state of the scan
+	let position = 0;
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let failed = false;
+
+	const fail = (stream: Transform, reason: string, text: string) => {
+		failed = true;
+		onText(text);
+		stream.emit(
+			'error',
+			new DaemonOutputError(reason, text.slice(0, excerptLength)),
+		);
+	};
+
+	const scan = (stream: Transform) => {
+		for (; position < buffer.length; position++) {
+			const char = buffer[position];
+			if (depth === 0) {
+				if (char === '{') {
+					start = position;
+					depth = 1;
+				} else if (!/\s/.test(char)) {
+					fail(stream, 'unexpected text', buffer.slice(position));
+					return;
+				}
+			} else if (inString) {
+				if (escaped) {
+					escaped = false;
+				} else if (char === '\\') {
+					escaped = true;
+				} else if (char === '"') {
+					inString = false;
+				}
+			} else if (char === '"') {
+				inString = true;
+			} else if (char === '{' || char === '[') {
+				depth += 1;
+			} else if (char === '}' || char === ']') {
+				depth -= 1;
+				if (depth === 0) {
+					const text = buffer.slice(start, position + 1);
+					let data: Events.DaemonMessage;
+					try {
+						data = JSON.parse(text);
+					} catch (error) {
+						fail(stream, error.message, buffer.slice(start));
+						return;
+					}
+					stream.push(data);
+					start = -1;
+				}
+			}
+		}
+		// Keep the object being read only
+		const keep = start === -1 ? buffer.length : start;
+		buffer = buffer.slice(keep);
+		position -= keep;
+		start = start === -1 ? -1 : 0;
+	};
+
+	return new Transform({
+		readableObjectMode: true,
+		transform(chunk: Buffer | string, _encoding, callback) {
+			if (!failed) {
+				buffer += _.isString(chunk) ? chunk : decoder.write(chunk);
+				scan(this);
+			}
+			callback();
+		},
+		flush(callback) {
+			if (!failed) {
+				buffer += decoder.end();
+				scan(this);
+				if (!failed && depth > 0) {
+					fail(this, 'truncated JSON object', buffer);
+				}
+			}
+			callback();
+		},
+	});
+};
+
+// `The command '/bin/sh -c false' returned a non-zero code: 1` (classic
+// builder), `process "/bin/sh -c false" did not complete successfully: exit
+// code: 1` (BuildKit)
+const runFailurePatterns = [
+	/The command '[\s\S]*' returned a non-zero code: (\d+)/,
+	/process "[\s\S]*" did not complete successfully: exit code: (\d+)/,
+];
+const dockerfileErrorPattern = /dockerfile parse error (?:on )?line (\d+): ([\s\S]*)$/i;
+// Pulls of base images that fail in the classic builder, and the metadata
+// requests of BuildKit
+const pullFailurePatterns = [
+	/^pull access denied for ([^\s,]+)/,
+	/^manifest for (\S+) not found/,
+	/failed to resolve source metadata for (\S+?):? /,
+];
+const unauthorizedPattern = /unauthorized|authentication required|no basic auth credentials|401 Unauthorized/i;
+const notFoundPattern = /not found|does not exist|manifest unknown|pull access denied/i;
+
+/**
+ * Classify an error reported by the docker daemon into the matching error
+ * class: a failed RUN command (RunStepError), a Dockerfile that the daemon
+ * cannot parse (DockerfileError), a base image that cannot be pulled
+ * (BaseImageNotFoundError, BaseImageAuthError or BaseImageError), or any
+ * other failure (DaemonBuildError).
+ *
+ * @param message The error message of the daemon
+ * @param code The code of the error (errorDetail.code), if any
+ * @param step The step that was running, if known
+ * @returns The error
+ */
+export const classifyDaemonError = (
+	message: string,
+	code?: number,
+	step?: FailedStep,
+): DaemonBuildError | DockerfileError => {
+	for (const pattern of runFailurePatterns) {
+		const match = pattern.exec(message);
+		if (match) {
+			return new RunStepError(message, parseInt(match[1], 10), step);
+		}
+	}
+	const dockerfileMatch = dockerfileErrorPattern.exec(message);
+	if (dockerfileMatch) {
+		return new DockerfileError(
+			dockerfileMatch[2],
+			parseInt(dockerfileMatch[1], 10),
+		);
+	}
+	let reference: string | undefined;
+	for (const pattern of pullFailurePatterns) {
+		const match = pattern.exec(message);
+		if (match) {
+			reference = match[1];
+		}
+	}
+	const isFrom = step !== undefined && step.instruction === 'FROM';
+	if (reference === undefined && step !== undefined && isFrom) {
+		// The image of `FROM [--platform=...] <image> [AS <name>]`
+		reference = _.find(
+			step.command.split(/\s+/).slice(1),
+			arg => !_.startsWith(arg, '--'),
+		);
+	}
+	if (reference !== undefined || isFrom) {
+		if (unauthorizedPattern.test(message)) {
+			return new BaseImageAuthError(message, reference, code, step);
+		}
+		if (notFoundPattern.test(message)) {
+			return new BaseImageNotFoundError(message, reference, code, step);
+		}
+		return new BaseImageError(message, reference, code, step);
+	}
+	return new DaemonBuildError(message, code, step);
+};
+
+/**
+ * Return an event stream capable of parsing a docker daemon's JSON object output.
+ * Both the output of the classic builder and the build traces of BuildKit are
+ * understood; the latter are converted to text in the style of the docker CLI's
+ * plain progress output, and the completed BuildKit vertexes are reported as
+ * layers. An error reported by the daemon is passed to onError as classified
+ * by classifyDaemonError, malformed output as a DaemonOutputError, and errors
+ * of the daemon's stream as a DaemonRequestError.
+ * @param daemonStream: Docker daemon's output stream (dockerode.buildImage)
+ * @param layers Array to which to push parsed image layer sha strings
+ * @param fromImageTags Array to which to push parsed FROM image tags info
+ * @param onError Error callback
+ * @param onEvent Callback for the structured events parsed from the output
+ * @param onMessage Callback for the JSON objects of the output, before they
+ * are parsed
+ * @param onText Callback for the malformed output, which is not made of JSON
+ * objects, before the DaemonOutputError is passed to onError
+ */
+export function getDockerDaemonBuildOutputParserStream(
+	daemonStream: Readable,
+	layers: string[],
+	fromImageTags: Utils.FromTagInfo[],
+	onError: (error: Error) => void,
+	onEvent: (event: Events.BuildEvent) => void,
+	onMessage: (data: Events.DaemonMessage) => void,
+	onText: (text: string) => void = _.noop,
+): Duplex {
+	const fromAliases = new Set();
+	const recordFromTag = (text: string) => {
+		const fromTag = Utils.extractFromTag(text);
+		if (fromTag !== undefined) {
+			if (!fromAliases.has(fromTag.repo)) {
+				fromImageTags.push(fromTag);
+			}
+			if (fromTag.alias) {
+				fromAliases.add(fromTag.alias);
+			}
+		}
+	};
+	const traceProgress = new BuildKit.TraceProgress();
+
+	const splitter = splitJSONObjects(onText).on('error', (error: Error) => {
+		daemonStream.unpipe();
+		onError(error);
+	});
+	daemonStream.on('error', (error: Error) => {
+		daemonStream.unpipe();
+		onError(new DaemonRequestError(error));
+	});
+	// The step that is running, for the errors of the daemon
+	let currentStep: Events.StepStartEvent | undefined;
+
+	return (
+		daemonStream
+			// parse the docker daemon's output json objects
+			.pipe(splitter)
+			// Don't use fat-arrow syntax here, to capture 'this' from es
+			.pipe(
+				es.through<Duplex>(function(data: Events.DaemonMessage) {
+					if (data == null) {
+						return;
+					}
+					onMessage(data);
+					try {
+						const events = Events.parseDaemonMessage(data);
+						events.forEach(onEvent);
+						const error = _.find(
+							events,
+							(event): event is Events.ErrorEvent => event.type === 'error',
+						);
+						currentStep =
+							_.findLast(
+								events,
+								(event): event is Events.StepStartEvent =>
+									event.type === 'step-start',
+							) || currentStep;
+						if (error !== undefined) {
+							throw classifyDaemonError(error.message, error.code, currentStep);
+						} else if (
+							data.id === BuildKit.buildKitTraceId &&
+							_.isString(data.aux)
+						) {
+							const update = traceProgress.update(
+								BuildKit.decodeTrace(data.aux),
+							);
+							update.events.forEach(onEvent);
+							currentStep =
+								_.findLast(
+									update.events,
+									(event): event is Events.StepStartEvent =>
+										event.type === 'step-start',
+								) || currentStep;
+							for (const vertex of update.started) {
+								// Strip the '[stage 1/2] ' prefix of step vertex names
+								recordFromTag(vertex.name.replace(/^\[[^\]]*\]\s*/, ''));
+							}
+							for (const vertex of update.completed) {
+								layers.push(vertex.digest);
+							}
+							if (update.text) {
+								this.emit('data', update.text);
+							}
+						} else {
+							const text = data.stream || '';
+							// Store image layers, so that they can be
+							// deleted by the caller if necessary
+							const sha = Utils.extractLayer(text);
+							if (sha !== undefined) {
+								layers.push(sha);
+							}
+							recordFromTag(text);
+							this.emit('data', data.stream);
+						}
+					} catch (error) {
+						daemonStream.unpipe();
+						onError(error);
+					}
+				}),
+			)
+	);
+}
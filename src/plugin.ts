@@ -14,17 +14,78 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { BuildEvent, StepStartEvent } from './events';
+import { BuildOptions } from './options';
+import { BuildReport, StepReport } from './report';
 
 /**
  * ValidHooks: A list of valid hooks to enable the compiler to do
  * some safety checking
  */
-export type ValidHook = 'buildStream' | 'buildSuccess' | 'buildFailure';
+export type ValidHook =
+	| 'buildStream'
+	| 'buildSuccess'
+	| 'buildFailure'
+	| 'buildEvent'
+	| 'preBuild'
+	| 'stepStart'
+	| 'stepComplete'
+	| 'buildEnd';
 
 /** FromTagInfo: Information about an image tag referred in the Dockerfile. */
 export interface FromTagInfo {
+	// The repository, as written in the Dockerfile, e.g. 'myregistry:5000/org/img'
 	repo: string;
+	// The tag; 'latest' if the reference has neither a tag nor a digest, and
+	// '' if it only has a digest
 	tag: string;
+	// The registry, e.g. 'docker.io' for references without a registry. Set
+	// for the tags found by the builder, as is `reference`
+	registry?: string;
+	// The path of the repository without its last component, e.g. 'library'
+	namespace?: string;
+	// The digest of `img@sha256:...` references
+	digest?: string;
+	// The `--platform` flag of the FROM instruction
+	platform?: string;
+	// The normalised reference, e.g. 'docker.io/library/alpine:latest'
+	reference?: string;
+}
+
+/** PushedImage: An image pushed to its registry after a build */
+export interface PushedImage {
+	// The normalised reference, e.g. 'myregistry:5000/org/img:1.0'
+	reference: string;
+	// The digest of the manifest in the registry, e.g. 'sha256:...'
+	digest: string;
+	// The size of the manifest
+	size?: number;
+}
+
+/** PreBuildContext: What the preBuild hook can change before a build */
+export interface PreBuildContext {
+	// The build options to pass to the docker daemon, which the hook can
+	// change; they are validated again after the hook. This is a shallow copy
+	// of the options of the build, so nested objects, e.g. buildargs, must be
+	// replaced rather than changed
+	readonly buildOpts: BuildOptions;
+	// Add a file to the build context, replacing the entry of the same name
+	// if there is one. The mode defaults to 0o644
+	addFile(name: string, contents: string | Buffer, mode?: number): void;
+}
+
+/** BuildEndInfo: The outcome of a build, passed to the buildEnd hook */
+export interface BuildEndInfo {
+	success: boolean;
+	// The ID of the built image, if the build got that far
+	imageId?: string;
+	// The error that failed the build, if it failed
+	error?: Error;
+	layers: string[];
+	fromTags: FromTagInfo[];
+	// The images pushed to their registries, if the build succeeded
+	pushed: PushedImage[];
+	report: BuildReport;
 }
 
 /**
@@ -55,19 +116,46 @@ export interface BuildHooks {
 	 */
 	buildStream?: (stream: NodeJS.ReadWriteStream) => void;
 
+	/**
+	 * This hook is called for every structured event parsed from the output of
+	 * the docker daemon, in the order that the daemon reported them. It allows
+	 * the build progress to be displayed (progress bars, step timings, ...)
+	 * without parsing the text of the build stream.
+	 *
+	 * @param event The event, discriminated by its `type` field
+	 *
+	 * Example implementation:
+	 *
+	 * buildEvent = (event) => {
+	 *     if (event.type === 'step-start') {
+	 *         console.log(`Step ${event.step}: ${event.instruction}`);
+	 *     }
+	 * }
+	 *
+	 */
+	buildEvent?: (event: BuildEvent) => void;
+
 	/**
 	 * This hook will be called after a build has successfully finished.
 	 *
-	 * @param imageId Digest that points to the built image
-	 * @param layers Intermediate layers used by the build, can be used for GC.
-	 * The last id in the layers array is also the imageId, so care should be
-	 * taken to not GC the built image.
+	 * @param imageId Full `sha256:` ID of the built image, as reported by the
+	 * daemon. If the daemon does not report it and it cannot be queried, this
+	 * is the truncated ID printed in the last step of the build output
+	 * @param layers Intermediate layers used by the build, which the cleanup
+	 * policy of the builder can remove.
+	 * The last id in the layers array is also (a prefix of) the imageId, so
+	 * care should be taken to not GC the built image.
 	 * @param fromTags image tags referred during the build
+	 * @param pushed The images pushed to their registries after the build,
+	 * if requested with the `push` option
+	 * @param report The timing, cache hits and output size of each step
 	 */
 	buildSuccess?: (
 		imageId: string,
 		layers: string[],
 		fromTags: FromTagInfo[],
+		pushed: PushedImage[],
+		report: BuildReport,
 	) => void;
 
 	/**
@@ -76,10 +164,66 @@ export interface BuildHooks {
 	 *
 	 * @param error Error that caused the build failure
 	 * @param layers The layers that were successful
+	 * @param report The timing, cache hits and output size of each step
+	 * that was started
 	 */
 	buildFailure?: (
 		error: Error,
 		layers: string[],
 		fromTags: FromTagInfo[],
+		report: BuildReport,
 	) => void;
+
+	/**
+	 * This hook is called before anything is sent to the docker daemon, after
+	 * the build options have been validated. It can change the build options,
+	 * and add files to the build context, which must then be an uncompressed
+	 * tar archive. It is not called when a build is replayed.
+	 *
+	 * If it throws or returns a rejected promise, the build fails with a
+	 * HookError before the daemon is contacted.
+	 *
+	 * @param context The build options, and a function to add files
+	 *
+	 * Example implementation:
+	 *
+	 * preBuild = (context) => {
+	 *     context.buildOpts.labels = { ...context.buildOpts.labels, ci: 'true' };
+	 *     context.addFile('VERSION', `${version}\n`);
+	 * }
+	 *
+	 */
+	preBuild?: (context: PreBuildContext) => void | PromiseLike<void>;
+
+	/**
+	 * This hook is called when the daemon starts a step of the Dockerfile.
+	 * The build is not paused while it runs, but it must complete before the
+	 * outcome of the build is reported; if it fails, the build fails with a
+	 * HookError.
+	 *
+	 * @param step The step-start event of the step
+	 */
+	stepStart?: (step: StepStartEvent) => void | PromiseLike<void>;
+
+	/**
+	 * This hook is called when a step of the Dockerfile has completed, i.e.
+	 * when the next step starts or the build output ends without an error.
+	 * It is not called for the step that failed a build. As for stepStart, it
+	 * must complete before the outcome of the build is reported, and the
+	 * build fails with a HookError if it fails.
+	 *
+	 * @param step The timing, cache hit and output size of the step
+	 */
+	stepComplete?: (step: StepReport) => void | PromiseLike<void>;
+
+	/**
+	 * This hook is called once at the very end of a build, whatever its
+	 * outcome: after the buildSuccess or buildFailure hook has completed, and
+	 * after the stepStart and stepComplete hooks have. The outcome of the
+	 * build is not affected by this hook: its errors are only passed to the
+	 * error handler.
+	 *
+	 * @param info The outcome of the build
+	 */
+	buildEnd?: (info: BuildEndInfo) => void | PromiseLike<void>;
 }
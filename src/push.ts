@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as Dockerode from 'dockerode';
+import * as JSONStream from 'JSONStream';
+import * as _ from 'lodash';
+
+import { RegistryAuth } from './auth';
+import { ImageReferenceError, PushError } from './errors';
+import { BuildEvent, DaemonMessage, parsePushMessage } from './events';
+import { PushedImage } from './plugin';
+import { ImageReference, parseImageReference } from './reference';
+
+/**
+ * Parse a reference that a built image is to be pushed as. References
+ * without a tag get the `latest` tag.
+ *
+ * @param ref The reference, e.g. 'myregistry:5000/org/img:1.0'
+ * @returns The parsed reference
+ * @throws ImageReferenceError if the reference is not valid, or has a
+ * digest, which is determined by the registry
+ */
+export const parsePushReference = (ref: string): ImageReference => {
+	const reference = parseImageReference(ref);
+	if (reference.digest !== undefined) {
+		throw new ImageReferenceError(ref, 'cannot push to a digest');
+	}
+	return reference;
+};
+
+/**
+ * Tag an image with a reference and push it to the registry of the
+ * reference.
+ *
+ * @param docker The docker daemon to use
+ * @param imageId The ID of the image
+ * @param ref The reference to push the image as
+ * @param auth The credentials of the registry, if any
+ * @param onEvent Called with the push progress events
+ * @returns Promise of the pushed image, with the digest of its manifest,
+ * rejected with a PushError if the image cannot be tagged or pushed
+ */
+export const pushImage = (
+	docker: Dockerode,
+	imageId: string,
+	ref: string,
+	auth: RegistryAuth | undefined,
+	onEvent: (event: BuildEvent) => void,
+): Bluebird<PushedImage> => {
+	const reference = parsePushReference(ref);
+	const repo = `${reference.registry}/${reference.repository}`;
+	const tag = reference.tag || 'latest';
+	const fail = (reason: string) =>
+		new PushError(reference.reference, reason, imageId);
+
+	return Bluebird.resolve(docker.getImage(imageId).tag({ repo, tag }))
+		.then(() =>
+			docker
+				.getImage(repo)
+				.push(auth !== undefined ? { tag, authconfig: auth } : { tag }),
+		)
+		.catch((error: Error) => {
+			throw fail(error.message);
+		})
+		.then(
+			(stream: NodeJS.ReadableStream) =>
+				new Bluebird<PushedImage>((resolve, reject) => {
+					let pushed: PushedImage | undefined;
+					stream
+						.pipe(JSONStream.parse())
+						.on('data', (data: DaemonMessage) => {
+							for (const event of parsePushMessage(reference.reference, data)) {
+								if (event.type === 'error') {
+									reject(fail(event.message));
+									return;
+								}
+								if (event.type === 'image-pushed') {
+									pushed = _.pick(event, ['reference', 'digest', 'size']);
+								}
+								onEvent(event);
+							}
+						})
+						.on('error', (error: Error) => reject(fail(error.message)))
+						.on('end', () => {
+							if (pushed === undefined) {
+								reject(fail('the daemon did not report the digest'));
+							} else {
+								resolve(pushed);
+							}
+						});
+					stream.on('error', (error: Error) => reject(fail(error.message)));
+				}),
+		);
+};
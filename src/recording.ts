@@ -0,0 +1,179 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+import { PassThrough, Readable } from 'stream';
+
+import { DaemonMessage } from './events';
+import { AbortSignalLike } from './options';
+
+/**
+ * RecordedMessage: A JSON object of the docker daemon's build output, or
+ * output that is not made of JSON objects, with the time it was received at
+ */
+export interface RecordedMessage {
+	// Milliseconds since the epoch
+	time: number;
+	message?: DaemonMessage;
+	// Malformed output, e.g. the HTML error page of a proxy, as it was
+	// received; replaying it fails the build as it did
+	text?: string;
+}
+
+/**
+ * RecordingTarget: Where to record the output of a build: the path of a
+ * file, or a writable stream
+ */
+export type RecordingTarget = string | NodeJS.WritableStream;
+
+/**
+ * ReplayOptions: Options of the replay of a recorded build
+ */
+export interface ReplayOptions {
+	// Cancel the replay when the signal is aborted, as for a build
+	signal?: AbortSignalLike;
+	// Wait between the messages as long as the daemon did
+	realTime?: boolean;
+}
+
+/**
+ * A recorder of the output of a build
+ */
+export interface Recorder {
+	record(message: DaemonMessage): void;
+	// Record malformed output
+	recordText(text: string): void;
+	// End the recording; resolves once a recording file has been written
+	end(): Bluebird<void>;
+}
+
+/**
+ * Create a recorder of the output of a build, which writes the messages of
+ * the daemon in the JSON lines format: one `{ time, message }` object per
+ * line, or `{ time, text }` for malformed output. A file is created (or
+ * overwritten) and closed by `end()`, while a writable stream is left open,
+ * so that several builds can be recorded to it.
+ *
+ * @param target The path of the file, or the stream, to write to
+ * @param onError Called if the recording cannot be written
+ * @returns The recorder
+ */
+export const createRecorder = (
+	target: RecordingTarget,
+	onError: (error: Error) => void,
+): Recorder => {
+	const isFile = _.isString(target);
+	const stream = _.isString(target) ? fs.createWriteStream(target) : target;
+	stream.on('error', onError);
+	const write = (entry: RecordedMessage) => {
+		stream.write(`${JSON.stringify(entry)}\n`);
+	};
+	return {
+		record: message => write({ time: Date.now(), message }),
+		recordText: text => write({ time: Date.now(), text }),
+		end: _.once(() => {
+			if (!isFile) {
+				stream.removeListener('error', onError);
+				return Bluebird.resolve();
+			}
+			return new Bluebird<void>(resolve => {
+				// Errors are reported by onError
+				stream.on('error', () => resolve());
+				stream.end(resolve);
+			});
+		}),
+	};
+};
+
+/**
+ * Parse a recording of the output of a build.
+ *
+ * @param content The recording, in the JSON lines format
+ * @returns The recorded messages; `_.map(messages, 'message')` are the
+ * JSON objects that the daemon output, e.g. to use as a test fixture,
+ * unless the output was malformed
+ * @throws Error if a line is not a recorded message
+ */
+export const parseRecording = (content: string): RecordedMessage[] => {
+	const messages: RecordedMessage[] = [];
+	content.split('\n').forEach((line, index) => {
+		if (_.trim(line) === '') {
+			return;
+		}
+		let entry: RecordedMessage;
+		try {
+			entry = JSON.parse(line);
+		} catch (error) {
+			throw new Error(`Invalid recording line ${index + 1}: ${error.message}`);
+		}
+		if (
+			!_.isNumber(entry.time) ||
+			!(_.isPlainObject(entry.message) || _.isString(entry.text))
+		) {
+			throw new Error(
+				`Invalid recording line ${index + 1}: not a recorded message`,
+			);
+		}
+		messages.push(entry);
+	});
+	return messages;
+};
+
+/**
+ * Read a recording of the output of a build from a file
+ *
+ * @param recordingPath The path of the file
+ * @returns Promise of the recorded messages
+ */
+export const readRecording = (
+	recordingPath: string,
+): Bluebird<RecordedMessage[]> =>
+	Bluebird.resolve(fs.readFile(recordingPath, 'utf8')).then(parseRecording);
+
+/**
+ * Create a stream of the recorded output of a build, as the daemon output
+ * it.
+ *
+ * @param messages The recorded messages
+ * @param realTime Wait between the messages as long as the daemon did
+ * @returns The stream of the JSON objects of the messages, and of the
+ * malformed output
+ */
+export const replayStream = (
+	messages: RecordedMessage[],
+	realTime = false,
+): Readable => {
+	const stream = new PassThrough();
+	// Set when the stream is destroyed, e.g. when the replay is cancelled
+	let closed = false;
+	stream.on('close', () => {
+		closed = true;
+	});
+	let previousTime: number | undefined;
+	Bluebird.each(messages, ({ time, message, text }) => {
+		const delay =
+			realTime && previousTime !== undefined ? time - previousTime : 0;
+		previousTime = time;
+		return (delay > 0 ? Bluebird.delay(delay) : Bluebird.resolve()).then(() => {
+			if (!closed) {
+				stream.write(text !== undefined ? text : JSON.stringify(message));
+			}
+		});
+	}).then(() => stream.end());
+	return stream;
+};
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+
+import { ImageReferenceError } from './errors';
+
+/**
+ * ImageReference: A parsed image reference, e.g. `alpine:3.10`, following
+ * the grammar of the docker distribution project. The registry is always
+ * set, with `docker.io` used for references without one.
+ */
+export interface ImageReference {
+	// The registry host, with its port if any, e.g. 'docker.io'
+	registry: string;
+	// The path of the repository, without its last component, e.g. 'library'
+	// for docker.io/library/alpine; undefined for single component paths
+	namespace?: string;
+	// The path of the repository, e.g. 'library/alpine'
+	repository: string;
+	tag?: string;
+	// e.g. 'sha256:...'
+	digest?: string;
+	// The normalised reference, e.g. 'docker.io/library/alpine:latest';
+	// references with neither a tag nor a digest get the 'latest' tag
+	reference: string;
+}
+
+export const defaultRegistry = 'docker.io';
+// Other names of the docker.io registry
+export const legacyRegistries = ['index.docker.io', 'registry-1.docker.io'];
+
+// The regular expressions of the grammar, see
+// https://github.com/distribution/distribution/blob/main/reference/regexp.go
+const alphaNumeric = '[a-z0-9]+';
+const separator = '(?:[._]|__|[-]+)';
+const pathComponent = `${alphaNumeric}(?:${separator}${alphaNumeric})*`;
+const domainComponent = '(?:[a-zA-Z0-9]|[a-zA-Z0-9][a-zA-Z0-9-]*[a-zA-Z0-9])';
+const domain = `(?:${domainComponent}(?:\\.${domainComponent})*|\\[[a-fA-F0-9:]+\\])(?::[0-9]+)?`;
+const tag = '[\\w][\\w.-]{0,127}';
+const digest =
+	'[A-Za-z][A-Za-z0-9]*(?:[-_+.][A-Za-z][A-Za-z0-9]*)*:[0-9a-fA-F]{32,}';
+
+const referencePattern = new RegExp(
+	`^((?:(${domain})/)?(${pathComponent}(?:/${pathComponent})*))(?::(${tag}))?(?:@(${digest}))?$`,
+);
+const nameMaxLength = 255;
+
+/**
+ * Parse an image reference, e.g. `myregistry:5000/org/img:1.0`, and
+ * normalise it as the docker CLI does: references without a registry are
+ * docker.io references, and single component docker.io repositories are
+ * `library/` repositories.
+ *
+ * @param ref The reference
+ * @returns The parsed reference
+ * @throws ImageReferenceError if the reference is not valid
+ */
+export const parseImageReference = (ref: string): ImageReference => {
+	const match = referencePattern.exec(ref);
+	if (!match) {
+		throw new ImageReferenceError(
+			ref,
+			/[A-Z]/.test(ref.split(/[:@]/)[0])
+				? 'repository name must be lowercase'
+				: 'invalid reference format',
+		);
+	}
+	if (match[1].length > nameMaxLength) {
+		throw new ImageReferenceError(
+			ref,
+			`repository name must not be more than ${nameMaxLength} characters`,
+		);
+	}
+	const [, , refRegistry, refPath, refTag, refDigest] = match;
+	let registry: string | undefined = refRegistry;
+	let repository = refPath;
+
+	// As for the docker CLI, the first component is only a registry if it
+	// looks like a host name
+	if (
+		registry !== undefined &&
+		!/[.:]/.test(registry) &&
+		registry !== 'localhost' &&
+		registry.toLowerCase() === registry
+	) {
+		repository = `${registry}/${repository}`;
+		registry = undefined;
+	}
+	if (registry === undefined || _.includes(legacyRegistries, registry)) {
+		registry = defaultRegistry;
+	}
+	if (registry === defaultRegistry && !_.includes(repository, '/')) {
+		repository = `library/${repository}`;
+	}
+
+	const reference: ImageReference = {
+		registry,
+		repository,
+		reference: `${registry}/${repository}`,
+	};
+	const lastSlash = repository.lastIndexOf('/');
+	if (lastSlash >= 0) {
+		reference.namespace = repository.slice(0, lastSlash);
+	}
+	if (refTag !== undefined) {
+		reference.tag = refTag;
+	}
+	if (refDigest !== undefined) {
+		reference.digest = refDigest;
+	}
+	if (refTag !== undefined || refDigest === undefined) {
+		reference.reference += `:${refTag || 'latest'}`;
+	}
+	if (refDigest !== undefined) {
+		reference.reference += `@${refDigest}`;
+	}
+	return reference;
+};
@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as http from 'http';
+import * as https from 'https';
+import * as _ from 'lodash';
+import { execFile } from 'mz/child_process';
+import { PassThrough } from 'stream';
+import * as url from 'url';
+
+/**
+ * The formats of build context archives that the docker daemon accepts.
+ * Compressed archives are decompressed by the daemon.
+ */
+export type ArchiveFormat = 'tar' | 'gzip' | 'bzip2' | 'xz';
+
+// The number of bytes needed to detect the format of an archive: tar
+// archives have a magic string at offset 257
+const archiveHeadLength = 262;
+
+/**
+ * Detect the format of a build context archive from its first bytes.
+ *
+ * @param head At least the first 262 bytes of the archive, unless the
+ * archive is shorter
+ * @returns The format, or undefined if it is not an archive format that the
+ * docker daemon accepts
+ */
+export const detectArchiveFormat = (
+	head: Buffer,
+): ArchiveFormat | undefined => {
+	const startsWith = (magic: number[]) =>
+		head.length >= magic.length && _.every(magic, (b, i) => head[i] === b);
+	if (startsWith([0x1f, 0x8b])) {
+		return 'gzip';
+	}
+	if (startsWith([0x42, 0x5a, 0x68])) {
+		return 'bzip2';
+	}
+	if (startsWith([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])) {
+		return 'xz';
+	}
+	if (head.toString('latin1', 257, 262) === 'ustar') {
+		return 'tar';
+	}
+};
+
+const maxRedirects = 5;
+
+const httpGet = (
+	archiveUrl: string,
+	redirects = 0,
+): Bluebird<http.IncomingMessage> => {
+	return new Bluebird<http.IncomingMessage>((resolve, reject) => {
+		const { protocol } = url.parse(archiveUrl);
+		if (protocol !== 'http:' && protocol !== 'https:') {
+			throw new Error(`Unsupported URL of build context: ${archiveUrl}`);
+		}
+		const get = protocol === 'https:' ? https.get : http.get;
+		get(archiveUrl, resolve).on('error', reject);
+	}).then(response => {
+		const status = response.statusCode || 0;
+		if (status >= 300 && status < 400 && response.headers.location) {
+			response.resume();
+			if (redirects >= maxRedirects) {
+				throw new Error(`Too many redirects downloading ${archiveUrl}`);
+			}
+			return httpGet(
+				url.resolve(archiveUrl, response.headers.location),
+				redirects + 1,
+			);
+		}
+		if (status !== 200) {
+			response.resume();
+			throw new Error(`Failed to download ${archiveUrl}: HTTP ${status}`);
+		}
+		return response;
+	});
+};
+
+/**
+ * Download a build context archive. The format of the archive is checked
+ * before the returned promise resolves, so that a URL that does not serve
+ * an archive (e.g. an HTML error page) fails before a build is started.
+ * Compressed archives are not decompressed, as the daemon does that.
+ *
+ * @param archiveUrl The http(s) URL of the archive
+ * @returns Promise of the stream of the archive
+ */
+export const fetchArchive = (
+	archiveUrl: string,
+): Bluebird<NodeJS.ReadableStream> => {
+	return httpGet(archiveUrl).then(
+		response =>
+			new Bluebird<NodeJS.ReadableStream>((resolve, reject) => {
+				const chunks: Buffer[] = [];
+				let length = 0;
+
+				const onData = (chunk: Buffer) => {
+					chunks.push(chunk);
+					length += chunk.length;
+					if (length >= archiveHeadLength) {
+						start(false);
+					}
+				};
+				const onEnd = () => start(true);
+
+				// Check the format, and pass the downloaded bytes and the rest
+				// of the response on
+				const start = (ended: boolean) => {
+					response.removeListener('data', onData);
+					response.removeListener('end', onEnd);
+					response.removeListener('error', reject);
+					response.pause();
+					const head = Buffer.concat(chunks);
+					if (detectArchiveFormat(head) === undefined) {
+						response.destroy();
+						reject(
+							new Error(
+								`${archiveUrl} is not a tar archive (optionally compressed with gzip, bzip2 or xz)`,
+							),
+						);
+						return;
+					}
+					const body = new PassThrough();
+					if (ended) {
+						body.end(head);
+					} else {
+						body.write(head);
+						response.on('error', (error: Error) => body.emit('error', error));
+						response.pipe(body);
+					}
+					resolve(body);
+				};
+
+				response.on('data', onData);
+				response.on('end', onEnd);
+				response.on('error', reject);
+			}),
+	);
+};
+
+const git = (args: string[], cwd?: string): Bluebird<void> => {
+	return Bluebird.resolve(
+		execFile('git', args, {
+			cwd,
+			// Fail rather than wait for credentials to be typed in
+			env: _.assign({}, process.env, { GIT_TERMINAL_PROMPT: '0' }),
+		}),
+	)
+		.catch((error: Error & { stderr?: string }) => {
+			const details = _.trim(error.stderr || '') || error.message;
+			throw new Error(`git ${args[0]} failed: ${details}`);
+		})
+		.return();
+};
+
+/**
+ * Clone a git repository, with its submodules, and check out a ref.
+ *
+ * @param repoUrl The URL (or path) of the repository
+ * @param ref The branch, tag or commit to check out; if undefined, the
+ * default branch is checked out
+ * @param dirPath The empty directory to clone the repository into
+ */
+export const cloneRepository = (
+	repoUrl: string,
+	ref: string | undefined,
+	dirPath: string,
+): Bluebird<void> => {
+	return Bluebird.try(() => {
+		// Don't let the URL or ref be interpreted as git options
+		if (_.startsWith(repoUrl, '-')) {
+			throw new Error(`Invalid git repository URL: ${repoUrl}`);
+		}
+		if (ref !== undefined && (ref === '' || _.startsWith(ref, '-'))) {
+			throw new Error(`Invalid git ref: ${ref}`);
+		}
+		return git(['clone', '--quiet', '--no-checkout', '--', repoUrl, dirPath]);
+	})
+		.then(() =>
+			git(
+				['checkout', '--quiet', ref === undefined ? 'HEAD' : ref, '--'],
+				dirPath,
+			),
+		)
+		.then(() =>
+			git(['submodule', 'update', '--quiet', '--init', '--recursive'], dirPath),
+		);
+};
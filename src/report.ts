@@ -0,0 +1,204 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as _ from 'lodash';
+
+import { analyseCache, CacheAnalysis } from './cache';
+import { BuildEvent, isCacheHit } from './events';
+import { BuildOptions } from './options';
+
+/**
+ * StepReport: What happened during a step of a build
+ */
+export interface StepReport {
+	step: number;
+	totalSteps?: number;
+	// The instruction of the step, e.g. RUN
+	instruction: string;
+	// The step as printed by the daemon, e.g. `RUN npm install`
+	command: string;
+	// Whether the result of the step was found in the build cache
+	cached: boolean;
+	// Wall time from the start of the step to the start of the next one, or
+	// to the end of the build output for the last step
+	durationMs: number;
+	// Size of the text printed by the step, in bytes
+	outputBytes: number;
+	// The image created by the step, if any
+	layer?: string;
+}
+
+/**
+ * BuildReport: The steps of a build, to find slow steps and cache misses.
+ * It is a plain object, which can be serialised with JSON.stringify(), and
+ * formatReport() renders it as a table.
+ */
+export interface BuildReport {
+	// Wall time of the build, from its start to the end of the build output
+	durationMs: number;
+	steps: StepReport[];
+	// The number of steps whose result was found in the build cache
+	cachedSteps: number;
+	// Which steps were found in the cache, and why the cache was invalidated;
+	// undefined for BuildKit builds, whose output does not tell
+	cache?: CacheAnalysis;
+}
+
+/**
+ * Create a tracker of the steps of a build, which is fed the events of the
+ * build. The build is timed from the creation of the tracker.
+ *
+ * @param buildOpts The build options, which tell whether the cache is used
+ * (nocache) and whether the output is BuildKit's (version)
+ * @param onStepComplete Called with (a copy of) the report of each step that
+ * completed: when the next step starts, or when the build ends successfully
+ * @returns `record(event)` to call for every build event, `end(succeeded)`
+ * to call at the end of the build output, and `report()` to get the report,
+ * which ends the build if `end()` was not called
+ */
+export const trackSteps = (
+	buildOpts: Pick<BuildOptions, 'nocache' | 'version'> = {},
+	onStepComplete: (step: StepReport) => void = _.noop,
+) => {
+	const startTime = Date.now();
+	let endTime: number | undefined;
+	const steps: StepReport[] = [];
+	let current: StepReport | undefined;
+	let currentStart = startTime;
+
+	const closeStep = (time: number, completed: boolean) => {
+		if (current !== undefined) {
+			current.durationMs = time - currentStart;
+			if (completed) {
+				onStepComplete(_.clone(current));
+			}
+			current = undefined;
+		}
+	};
+
+	// The step in progress when a build fails is the one that failed it
+	const end = (succeeded = true) => {
+		if (endTime === undefined) {
+			endTime = Date.now();
+			closeStep(endTime, succeeded);
+		}
+	};
+
+	return {
+		record: (event: BuildEvent) => {
+			if (endTime !== undefined) {
+				return;
+			}
+			if (event.type === 'step-start') {
+				const now = Date.now();
+				closeStep(now, true);
+				current = {
+					step: event.step,
+					instruction: event.instruction,
+					command: event.command,
+					cached: false,
+					durationMs: 0,
+					outputBytes: 0,
+				};
+				if (event.totalSteps !== undefined) {
+					current.totalSteps = event.totalSteps;
+				}
+				currentStart = now;
+				steps.push(current);
+			} else if (current === undefined) {
+				return;
+			} else if (isCacheHit(event)) {
+				current.cached = true;
+			} else if (event.type === 'step-output') {
+				current.outputBytes += Buffer.byteLength(event.text);
+			} else if (event.type === 'layer-created') {
+				current.layer = event.layer;
+			}
+		},
+		end,
+		report: (): BuildReport => {
+			end();
+			const report: BuildReport = {
+				durationMs: (endTime as number) - startTime,
+				steps: _.cloneDeep(steps),
+				cachedSteps: _.filter(steps, 'cached').length,
+			};
+			if (buildOpts.version !== '2') {
+				report.cache = analyseCache(steps, buildOpts.nocache);
+			}
+			return report;
+		},
+	};
+};
+
+const formatDuration = (ms: number): string =>
+	ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+const formatBytes = (bytes: number): string => {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let size = bytes;
+	let unit = 0;
+	while (size >= 1024 && unit < units.length - 1) {
+		size /= 1024;
+		unit += 1;
+	}
+	return unit === 0 ? `${size} B` : `${size.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Render a build report as a table, with a row per step and a summary line,
+ * e.g.
+ *
+ *     STEP  COMMAND         CACHED  TIME  OUTPUT
+ *     1/2   FROM busybox    no      12ms  0 B
+ *     2/2   RUN echo hello  yes     3ms   0 B
+ *     2 steps, 1 cached, 15ms
+ *
+ * @param report The build report
+ * @param maxCommandLength Commands longer than this are truncated
+ * @returns The table, with a trailing newline
+ */
+export const formatReport = (
+	report: BuildReport,
+	maxCommandLength = 50,
+): string => {
+	const rows = [['STEP', 'COMMAND', 'CACHED', 'TIME', 'OUTPUT']].concat(
+		report.steps.map(step => [
+			step.totalSteps !== undefined
+				? `${step.step}/${step.totalSteps}`
+				: `${step.step}`,
+			_.truncate(step.command, { length: maxCommandLength }),
+			step.cached ? 'yes' : 'no',
+			formatDuration(step.durationMs),
+			formatBytes(step.outputBytes),
+		]),
+	);
+	const widths = _.range(rows[0].length).map(column =>
+		_.max(rows.map(row => row[column].length)),
+	);
+	const lines = rows.map(row =>
+		_.trimEnd(
+			row
+				.map((cell, column) => _.padEnd(cell, (widths[column] as number) + 2))
+				.join(''),
+		),
+	);
+	lines.push(
+		`${report.steps.length} steps, ${report.cachedSteps} cached, ` +
+			formatDuration(report.durationMs),
+	);
+	return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { FromTagInfo, PushedImage } from './plugin';
+import { BuildReport } from './report';
+
+/**
+ * BuildOutput: What the promise API reports about a build, whether it
+ * succeeded or failed
+ */
+export interface BuildOutput {
+	// Intermediate layers created by the build
+	layers: string[];
+	// Image tags referred by the Dockerfile
+	fromTags: FromTagInfo[];
+	// Warnings printed by the daemon
+	warnings: string[];
+	// Images removed after the build, following the cleanup policy
+	removedLayers: string[];
+	// Wall time of the build, including sending the build context
+	durationMs: number;
+	// The timing, cache hits and output size of each step
+	report: BuildReport;
+	// The text of the build stream
+	log: string;
+}
+
+/**
+ * BuildResult: The result of a successful build of the promise API
+ */
+export interface BuildResult extends BuildOutput {
+	// Full `sha256:` ID of the built image, as passed to the buildSuccess hook
+	imageId: string;
+	// The images pushed after the build, with the digests of their manifests
+	pushed: PushedImage[];
+}
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import * as _ from 'lodash';
+import * as fs from 'mz/fs';
+
+import { SecretError } from './errors';
+
+/**
+ * SecretOptions: The secrets of a build, whose values are redacted from
+ * everything the builder reports
+ */
+export interface SecretOptions {
+	/**
+	 * Build args whose values are secret, by name. They are added to the
+	 * `buildargs` build option. Note that the classic builder records the
+	 * build args used by RUN instructions in the history of the image.
+	 */
+	buildargs?: { [name: string]: string };
+	/**
+	 * Files whose contents are secret values, by secret ID, e.g. a key that
+	 * the build downloads itself. They are only read to redact their
+	 * contents: they are not made available to the build.
+	 */
+	valueFiles?: { [id: string]: string };
+	// Other secret values
+	values?: string[];
+}
+
+// What secret values are replaced with
+export const redacted = '***';
+
+// Lines of multi-line values that are shorter, or that are the armour of a
+// PEM key, e.g. `-----END PRIVATE KEY-----`, are not secret on their own,
+// and redacting them would garble unrelated output
+const minLineLength = 4;
+const pemArmourPattern = /^-----(BEGIN|END) [A-Z0-9 ]+-----$/;
+
+const secretLines = (value: string): string[] => {
+	const lines = value.split(/\r?\n/).map(line => line.trim());
+	return lines.length > 1
+		? lines.filter(
+				line => line.length >= minLineLength && !pemArmourPattern.test(line),
+		  )
+		: [];
+};
+
+/**
+ * Read the values of the secrets of a build. Multi-line values are also
+ * split into their lines, as commands often print them line by line, but
+ * for short lines and the armour lines of PEM keys.
+ *
+ * @param secrets The secrets
+ * @returns Promise of the values to redact, rejected with a SecretError if
+ * a value file cannot be read
+ */
+export const resolveSecretValues = (
+	secrets: SecretOptions,
+): Bluebird<string[]> =>
+	Bluebird.map(_.toPairs(secrets.valueFiles), ([id, filePath]) =>
+		Bluebird.resolve(fs.readFile(filePath, 'utf8')).catch((error: Error) => {
+			throw new SecretError(id, error.message);
+		}),
+	).then(contents =>
+		_(_.values(secrets.buildargs))
+			.concat(secrets.values || [], contents)
+			.flatMap(value => [value.trim()].concat(secretLines(value)))
+			.filter(value => value !== '')
+			.uniq()
+			.value(),
+	);
+
+/**
+ * Create a function that replaces every occurrence of secret values in a
+ * text with `***`. Longer values are replaced first, so that values that
+ * contain others are fully redacted.
+ *
+ * @param values The secret values
+ * @returns The redaction function
+ */
+export const createRedactor = (values: string[]) => {
+	const sorted = _.sortBy(_.uniq(values), value => -value.length);
+	return (text: string): string =>
+		_.reduce(
+			sorted,
+			(result, value) =>
+				result.indexOf(value) === -1
+					? result
+					: result.split(value).join(redacted),
+			text,
+		);
+};
+
+/**
+ * Redact the strings found in a value, e.g. a build event, recursively.
+ * Objects and arrays are copied, and other values are left as they are.
+ *
+ * @param value The value
+ * @param redact The redaction function
+ * @returns The redacted value
+ */
+export const redactValue = <T>(
+	value: T,
+	redact: (text: string) => string,
+): T => {
+	if (_.isString(value)) {
+		return (redact(value) as unknown) as T;
+	}
+	if (_.isArray(value)) {
+		return (value.map(item => redactValue(item, redact)) as unknown) as T;
+	}
+	if (_.isPlainObject(value)) {
+		return (_.mapValues(value as any, item =>
+			redactValue(item, redact),
+		) as unknown) as T;
+	}
+	return value;
+};
+
+/**
+ * Redact the message, the stack trace and the string fields of an error,
+ * in place, so that the error keeps its class.
+ *
+ * @param error The error
+ * @param redact The redaction function
+ * @returns The error
+ */
+export const redactError = <E extends Error>(
+	error: E,
+	redact: (text: string) => string,
+): E => {
+	error.message = redact(error.message);
+	if (error.stack !== undefined) {
+		error.stack = redact(error.stack);
+	}
+	_.forOwn(error, (value, key) => {
+		if (_.isString(value)) {
+			_.set(error, key, redact(value));
+		}
+	});
+	return error;
+};
@@ -16,8 +16,12 @@
  */
 import * as Bluebird from 'bluebird';
 import * as klaw from 'klaw';
+import * as fs from 'mz/fs';
+import * as path from 'path';
 
+import { IgnoreMatcher } from './dockerignore';
 import * as Plugin from './plugin';
+import { ImageReference, parseImageReference } from './reference';
 
 /**
  * Given a docker 'arrow message' containing a sha representing
@@ -51,44 +55,127 @@ const extractArrowMessage = (message: string): string | undefined => {
 };
 
 /**
- * Go through an entire directory, splitting the entries out
- * into a list of paths to work through.
+ * Go through an entire directory, returning every entry below it
+ * (files, directories, symlinks, ...) along with its lstat() information.
+ * The directory itself is not included.
+ *
+ * @param dirPath The directory to walk
+ * @param matcher If provided, paths that it ignores are left out, and
+ * ignored directories are not walked unless something below them could
+ * be re-included
  */
-export const directoryToFiles = (dirPath: string): Bluebird<string[]> => {
-	return new Bluebird<string[]>((resolve, reject) => {
-		const files: string[] = [];
+export const directoryToEntries = (
+	dirPath: string,
+	matcher?: IgnoreMatcher,
+): Bluebird<klaw.Item[]> => {
+	return new Bluebird<klaw.Item[]>((resolve, reject) => {
+		const entries: klaw.Item[] = [];
+		const root = path.resolve(dirPath);
+		const relPath = (p: string) => path.relative(root, p).replace(/\\/g, '/');
 
 		// Walk the directory
-		klaw(dirPath)
+		klaw(root, {
+			filter: (p: string) =>
+				matcher == null ||
+				!matcher.ignores(relPath(p)) ||
+				matcher.mustWalk(relPath(p)),
+		})
 			.on('data', (item: klaw.Item) => {
-				if (!item.stats.isDirectory()) {
-					files.push(item.path);
+				if (
+					item.path !== root &&
+					(matcher == null || !matcher.ignores(relPath(item.path)))
+				) {
+					entries.push(item);
 				}
 			})
 			.on('end', () => {
-				resolve(files);
+				resolve(entries);
 			})
 			.on('error', reject);
 	});
 };
 
-const fromTagPattern = /^(Step.+?\s*:\s*)?FROM\s+([\w-./]+)(:?([\w-./]+))?\s*(as\s+([\w-./]+))?/;
+/**
+ * Go through an entire directory, splitting the entries out
+ * into a list of paths to work through. Directories are left out.
+ *
+ * @param dirPath The directory to walk
+ * @param matcher If provided, paths that it ignores are left out
+ */
+export const directoryToFiles = (
+	dirPath: string,
+	matcher?: IgnoreMatcher,
+): Bluebird<string[]> => {
+	return directoryToEntries(dirPath, matcher)
+		.filter(item => !item.stats.isDirectory())
+		.map(item => item.path);
+};
+
+/**
+ * Remove a directory and everything below it. Symbolic links are removed,
+ * not followed.
+ *
+ * @param dirPath The directory to remove
+ */
+export const removeDirectory = (dirPath: string): Bluebird<void> => {
+	return Bluebird.resolve(fs.readdir(dirPath))
+		.each(name => {
+			const entryPath = path.join(dirPath, name);
+			return Bluebird.resolve(fs.lstat(entryPath)).then(stats =>
+				stats.isDirectory() ? removeDirectory(entryPath) : fs.unlink(entryPath),
+			);
+		})
+		.then(() => fs.rmdir(dirPath));
+};
+
+// Matches `FROM [--flag=value ...] <reference> [AS <alias>]`, as printed by
+// the daemon, with a `Step N/M :` prefix for the classic builder
+const fromTagPattern = /^(?:Step.+?\s*:\s*)?FROM\s+((?:--\S+\s+)*)(\S+)(?:\s+as\s+(\S+))?\s*$/i;
 
 export interface FromTagInfo extends Plugin.FromTagInfo {
 	alias?: string;
 }
 
+/**
+ * Given a FROM instruction, as printed in the daemon's build output, extract
+ * the image reference it refers to. The reference is parsed following the
+ * grammar of the docker distribution project.
+ *
+ * @param message The build message to parse
+ * @returns The reference, or undefined if the message is not a FROM
+ * instruction or the reference is not valid
+ */
 export const extractFromTag = (message: string): FromTagInfo | undefined => {
 	const match = fromTagPattern.exec(message);
 	if (!match) {
 		return undefined;
 	}
+	const [, flags, ref, alias] = match;
+	let reference: ImageReference;
+	try {
+		reference = parseImageReference(ref);
+	} catch {
+		return undefined;
+	}
 	const res: FromTagInfo = {
-		repo: match[2],
-		tag: match[4] || 'latest',
+		// The reference as written, without its tag and digest
+		repo: ref.replace(/@.*$/, '').replace(/:[^\/]*$/, ''),
+		tag: reference.tag || (reference.digest === undefined ? 'latest' : ''),
+		registry: reference.registry,
+		reference: reference.reference,
 	};
-	if (match[6]) {
-		res.alias = match[6];
+	if (reference.namespace !== undefined) {
+		res.namespace = reference.namespace;
+	}
+	if (reference.digest !== undefined) {
+		res.digest = reference.digest;
+	}
+	const platform = /(?:^|\s)--platform=(\S+)/.exec(flags);
+	if (platform) {
+		res.platform = platform[1];
+	}
+	if (alias) {
+		res.alias = alias;
 	}
 	return res;
 };
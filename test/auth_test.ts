@@ -0,0 +1,256 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import * as Auth from '../src/auth';
+import { parseDockerfile } from '../src/dockerfile';
+import { RegistryAuthError } from '../src/errors';
+import { removeDirectory } from '../src/utils';
+import { makeTmpDir } from './test-files/remote_fixtures';
+
+const base64 = (text: string) => Buffer.from(text).toString('base64');
+
+/**
+ * Create a program implementing the `get` command of the docker credential
+ * helper protocol, which records the server address it is asked about, and
+ * runs the given shell commands
+ */
+const createHelper = (dir: string, name: string, script: string): string => {
+	const program = path.join(dir, name);
+	fs.writeFileSync(
+		program,
+		`#!/bin/sh\nread address\necho "$address" >> "${program}.log"\n${script}\n`,
+	);
+	fs.chmodSync(program, 0o755);
+	return program;
+};
+
+const helperRequests = (program: string): string[] =>
+	fs
+		.readFileSync(`${program}.log`, 'utf8')
+		.split('\n')
+		.filter(line => line !== '');
+
+describe('Registry authentication', () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = makeTmpDir();
+	});
+
+	afterEach(() => removeDirectory(tmpDir));
+
+	it('normalises the addresses of registries', () => {
+		expect(Auth.normaliseRegistry('https://index.docker.io/v1/')).to.equal(
+			'docker.io',
+		);
+		expect(Auth.normaliseRegistry('registry-1.docker.io')).to.equal(
+			'docker.io',
+		);
+		expect(Auth.normaliseRegistry('https://MyRegistry:5000/v2/')).to.equal(
+			'myregistry:5000',
+		);
+		expect(Auth.normaliseRegistry('quay.io')).to.equal('quay.io');
+	});
+
+	it('lists the registries of the base images of a Dockerfile', () => {
+		const dockerfile = parseDockerfile(
+			[
+				'FROM myregistry:5000/img:1.0 AS build',
+				'FROM build',
+				'FROM scratch',
+				'FROM alpine',
+				'FROM quay.io/org/img',
+				'FROM docker.io/library/busybox',
+			].join('\n'),
+		);
+		expect(Auth.dockerfileRegistries(dockerfile)).to.deep.equal([
+			'myregistry:5000',
+			'docker.io',
+			'quay.io',
+		]);
+		expect(Auth.imageRegistries(['Invalid', 'gcr.io/img'])).to.deep.equal([
+			'gcr.io',
+		]);
+	});
+
+	it('reads docker config files', async () => {
+		const configPath = path.join(tmpDir, 'config.json');
+		fs.writeFileSync(
+			configPath,
+			JSON.stringify({
+				auths: {
+					'https://index.docker.io/v1/': { auth: base64('user:pass:word') },
+					'myregistry:5000': { identitytoken: 'token' },
+					'quay.io': {},
+				},
+				credHelpers: { 'https://gcr.io': 'gcloud' },
+				credsStore: 'pass',
+			}),
+		);
+		expect(await Auth.readDockerConfig(configPath)).to.deep.equal({
+			auths: {
+				'docker.io': { username: 'user', password: 'pass:word' },
+				'myregistry:5000': { identitytoken: 'token' },
+			},
+			credHelpers: { 'gcr.io': 'gcloud' },
+			credsStore: 'pass',
+		});
+		expect(
+			await Auth.readDockerConfig(path.join(tmpDir, 'missing.json')),
+		).to.deep.equal({ auths: {}, credHelpers: {} });
+
+		fs.writeFileSync(configPath, '{');
+		const error = await Auth.readDockerConfig(configPath).catch(e => e);
+		expect(error.message).to.match(/^Invalid docker config file/);
+	});
+
+	it('runs credential helper programs', async () => {
+		const helper = createHelper(
+			tmpDir,
+			'docker-credential-stub',
+			[
+				'case "$address" in',
+				'  https://index.docker.io/v1/) echo \'{"ServerURL":"","Username":"user","Secret":"secret"}\' ;;',
+				'  token.io) echo \'{"ServerURL":"","Username":"<token>","Secret":"refresh"}\' ;;',
+				'  broken.io) echo "not json" ;;',
+				'  failing.io) echo "permission denied" >&2; exit 1 ;;',
+				'  *) echo "credentials not found in native keychain"; exit 1 ;;',
+				'esac',
+			].join('\n'),
+		);
+		const get = Auth.execCredentialHelper(helper);
+
+		expect(await get('docker.io')).to.deep.equal({
+			username: 'user',
+			password: 'secret',
+		});
+		expect(await get('token.io')).to.deep.equal({ identitytoken: 'refresh' });
+		expect(await get('unknown.io')).to.be.undefined;
+		expect(helperRequests(helper)).to.deep.equal([
+			'https://index.docker.io/v1/',
+			'token.io',
+			'unknown.io',
+		]);
+
+		for (const registry of ['broken.io', 'failing.io']) {
+			const error = await Bluebird.resolve(get(registry)).catch(e => e);
+			expect(error).to.be.an.instanceof(RegistryAuthError);
+			expect(error.registry).to.equal(registry);
+		}
+		const missing = await Bluebird.resolve(
+			Auth.execCredentialHelper(path.join(tmpDir, 'missing'))('docker.io'),
+		).catch(e => e);
+		expect(missing).to.be.an.instanceof(RegistryAuthError);
+	});
+
+	it('only resolves the credentials of the given registries', async () => {
+		const binDir = path.join(tmpDir, 'bin');
+		fs.mkdirSync(binDir);
+		const gcloud = createHelper(
+			binDir,
+			'docker-credential-gcloud',
+			'echo \'{"Username":"_token","Secret":"gcloud-secret"}\'',
+		);
+		const store = createHelper(
+			binDir,
+			'docker-credential-store',
+			'echo \'{"Username":"store-user","Secret":"store-secret"}\'',
+		);
+		const configPath = path.join(tmpDir, 'config.json');
+		fs.writeFileSync(
+			configPath,
+			JSON.stringify({
+				auths: {
+					'https://index.docker.io/v1/': { auth: base64('hub:file') },
+					'explicit.io': { auth: base64('file:file') },
+					'gcr.io': { auth: base64('file:file') },
+				},
+				credHelpers: { 'gcr.io': 'gcloud', 'custom.io': 'gcloud' },
+				credsStore: 'store',
+			}),
+		);
+		const options: Auth.RegistryAuthOptions = {
+			registries: {
+				'https://explicit.io/v2/': { username: 'explicit', password: 'pass' },
+				'unused.io': { username: 'unused', password: 'pass' },
+			},
+			credentialHelper: registry =>
+				Bluebird.resolve(
+					registry === 'custom.io'
+						? { registrytoken: 'custom-token' }
+						: undefined,
+				),
+			dockerConfig: configPath,
+		};
+
+		const originalPath = process.env.PATH;
+		process.env.PATH = `${binDir}${path.delimiter}${originalPath}`;
+		try {
+			const config = await Auth.resolveRegistryConfig(
+				[
+					'docker.io',
+					'index.docker.io',
+					'explicit.io',
+					'gcr.io',
+					'custom.io',
+					'other.io',
+				],
+				options,
+			);
+			expect(config).to.deep.equal({
+				'https://index.docker.io/v1/': {
+					serveraddress: 'https://index.docker.io/v1/',
+					username: 'hub',
+					password: 'file',
+				},
+				'explicit.io': {
+					serveraddress: 'explicit.io',
+					username: 'explicit',
+					password: 'pass',
+				},
+				'gcr.io': {
+					serveraddress: 'gcr.io',
+					username: '_token',
+					password: 'gcloud-secret',
+				},
+				'custom.io': {
+					serveraddress: 'custom.io',
+					registrytoken: 'custom-token',
+				},
+				'other.io': {
+					serveraddress: 'other.io',
+					username: 'store-user',
+					password: 'store-secret',
+				},
+			});
+			expect(helperRequests(gcloud)).to.deep.equal(['gcr.io']);
+			expect(helperRequests(store)).to.deep.equal(['other.io']);
+
+			expect(
+				await Auth.resolveRegistryConfig(['quay.io'], {
+					registries: options.registries,
+				}),
+			).to.deep.equal({});
+		} finally {
+			process.env.PATH = originalPath;
+		}
+	});
+});
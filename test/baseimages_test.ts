@@ -0,0 +1,164 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+import { PassThrough } from 'stream';
+
+import * as BaseImages from '../src/baseimages';
+import { parseDockerfile } from '../src/dockerfile';
+import { DockerfileError, MissingBaseImagesError } from '../src/errors';
+import { PullProgressEvent } from '../src/events';
+
+const digest = `sha256:${'b'.repeat(64)}`;
+
+/**
+ * A docker daemon with the given local images, which can pull any image
+ */
+class MockDocker {
+	public pulled: Array<{ name: string; options: any }> = [];
+
+	public constructor(public images: string[]) {}
+
+	public getImage(name: string) {
+		return {
+			inspect: () => {
+				if (!_.includes(this.images, name)) {
+					return Promise.reject(
+						_.assign(new Error('No such image'), { statusCode: 404 }),
+					);
+				}
+				return Promise.resolve({
+					Id: `sha256:${'c'.repeat(64)}`,
+					RepoDigests: [`other@${digest}`, `alpine@${digest}`],
+				});
+			},
+		};
+	}
+
+	public pull(name: string, options: any) {
+		this.pulled.push({ name, options });
+		this.images.push(name);
+		const stream = new PassThrough();
+		stream.end(
+			[
+				{ status: 'Pulling from library/alpine', id: '3.10' },
+				{ status: 'Downloading', id: 'abc', progressDetail: { current: 1 } },
+			]
+				.map(message => JSON.stringify(message))
+				.join('\r\n'),
+		);
+		return Promise.resolve(stream);
+	}
+}
+
+describe('Base images', () => {
+	const dockerfile = parseDockerfile(
+		[
+			'ARG BASE=alpine',
+			'FROM ${BASE}:3.10 AS build',
+			'FROM build',
+			'FROM --platform=linux/arm64 myregistry:5000/org/img',
+			'FROM scratch',
+			'FROM alpine:3.10',
+		].join('\n'),
+	);
+
+	it('lists the external base images of a Dockerfile', () => {
+		expect(BaseImages.listBaseImages(dockerfile)).to.deep.equal([
+			{
+				name: 'alpine:3.10',
+				reference: {
+					registry: 'docker.io',
+					namespace: 'library',
+					repository: 'library/alpine',
+					tag: '3.10',
+					reference: 'docker.io/library/alpine:3.10',
+				},
+				stages: [0, 4],
+				line: 2,
+			},
+			{
+				name: 'myregistry:5000/org/img',
+				reference: {
+					registry: 'myregistry:5000',
+					namespace: 'org',
+					repository: 'org/img',
+					reference: 'myregistry:5000/org/img:latest',
+				},
+				platform: 'linux/arm64',
+				stages: [2],
+				line: 4,
+			},
+		]);
+	});
+
+	it('reports invalid base images with their line', () => {
+		let error: DockerfileError | undefined;
+		try {
+			BaseImages.listBaseImages(parseDockerfile('FROM alpine\nFROM Alpine'));
+		} catch (e) {
+			error = e;
+		}
+		expect(error).to.be.an.instanceOf(DockerfileError);
+		expect(error!.line).to.equal(2);
+	});
+
+	it('checks that base images exist locally', async () => {
+		const docker = new MockDocker(['docker.io/library/alpine:3.10']);
+		let error: MissingBaseImagesError | undefined;
+		await BaseImages.resolveBaseImages(
+			docker as any,
+			BaseImages.listBaseImages(dockerfile),
+			{ mode: 'check' },
+		).catch(e => (error = e));
+		expect(error).to.be.an.instanceOf(MissingBaseImagesError);
+		expect(error!.references).to.deep.equal(['myregistry:5000/org/img:latest']);
+		expect(docker.pulled).to.deep.equal([]);
+	});
+
+	it('pulls missing base images and pins them to their digest', async () => {
+		const docker = new MockDocker(['docker.io/library/alpine:3.10']);
+		const progress: Array<[string, PullProgressEvent]> = [];
+		const images = await BaseImages.resolveBaseImages(
+			docker as any,
+			BaseImages.listBaseImages(dockerfile),
+			{
+				mode: 'pull-missing',
+				platform: 'linux/amd64',
+				onProgress: (image, event) => progress.push([image.name, event]),
+			},
+		);
+		expect(docker.pulled).to.deep.equal([
+			{
+				name: 'myregistry:5000/org/img:latest',
+				options: { platform: 'linux/arm64' },
+			},
+		]);
+		expect(progress.map(([name, event]) => [name, event.status])).to.deep.equal(
+			[
+				['myregistry:5000/org/img', 'Pulling from library/alpine'],
+				['myregistry:5000/org/img', 'Downloading'],
+			],
+		);
+		expect(images[0].pinned).to.equal(
+			`docker.io/library/alpine:3.10@${digest}`,
+		);
+		expect(images[0].imageId).to.equal(`sha256:${'c'.repeat(64)}`);
+		// The mock digests are not of the registry of the second image
+		expect(images[1].pinned).to.be.undefined;
+	});
+});
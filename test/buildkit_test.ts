@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+
+import { decodeTrace, redactTrace, TraceProgress } from '../src/buildkit';
+import {
+	sampleBuildKitFailureOutput,
+	sampleBuildKitOutput,
+} from './test-files/sample_buildkit_output';
+
+const traces = (output: Array<{ id?: string; aux?: any }>) =>
+	output
+		.filter(data => data.id === 'moby.buildkit.trace')
+		.map(data => decodeTrace(data.aux));
+
+describe('BuildKit', () => {
+	it('decodes build traces', () => {
+		const [, second] = traces(sampleBuildKitOutput);
+		expect(second.vertexes).to.have.length(1);
+		expect(second.vertexes[0]).to.include({
+			name: '[internal] load build definition from Dockerfile',
+			cached: false,
+		});
+		expect(second.vertexes[0].inputs).to.deep.equal([]);
+		expect(second.vertexes[0].digest).to.match(/^sha256:[a-f0-9]{64}$/);
+		expect(second.vertexes[0].completed!.getTime()).to.equal(1571400000050);
+		expect(second.statuses).to.have.length(1);
+		expect(second.statuses[0]).to.include({
+			id: 'transferring dockerfile: 37B',
+			vertex: second.vertexes[0].digest,
+			current: 37,
+		});
+	});
+
+	it('decodes logs and warnings', () => {
+		const statuses = traces(sampleBuildKitFailureOutput);
+		const logs = _.flatMap(statuses, s => s.logs);
+		const warnings = _.flatMap(statuses, s => s.warnings);
+		expect(logs).to.have.length(1);
+		expect(logs[0].stream).to.equal(1);
+		expect(logs[0].msg.toString()).to.equal('bye\n');
+		expect(warnings).to.have.length(1);
+		expect(warnings[0].short).to.equal('Empty continuation line');
+	});
+
+	it('redacts the text of build traces', () => {
+		const messages = sampleBuildKitFailureOutput.filter(
+			data => data.id === 'moby.buildkit.trace',
+		);
+		const redact = (text: string) =>
+			text.replace('bye', '***').replace('continuation', '***');
+		const redacted = messages.map(({ aux }) => ({
+			id: 'moby.buildkit.trace',
+			aux: redactTrace(aux as string, redact),
+		}));
+		const statuses = traces(redacted);
+		const logs = _.flatMap(statuses, s => s.logs);
+		expect(logs[0].msg.toString()).to.equal('***\n');
+		expect(_.flatMap(statuses, s => s.warnings)[0].short).to.equal(
+			'Empty *** line',
+		);
+		// The other fields are kept
+		expect(_.flatMap(statuses, s => s.vertexes)).to.deep.equal(
+			_.flatMap(traces(messages), s => s.vertexes).map(vertex => ({
+				...vertex,
+				name: redact(vertex.name),
+				...(vertex.error !== undefined ? { error: redact(vertex.error) } : {}),
+			})),
+		);
+		// Messages without secrets are left as they are
+		expect(
+			messages.map(({ aux }) => redactTrace(aux as string, _.identity)),
+		).to.deep.equal(_.map(messages, 'aux'));
+	});
+
+	it('rejects truncated messages', () => {
+		const aux = sampleBuildKitOutput[0].aux as string;
+		const truncated = Buffer.from(aux, 'base64')
+			.slice(0, 20)
+			.toString('base64');
+		expect(() => decodeTrace(truncated)).to.throw('Truncated');
+	});
+
+	it('renders progress like the docker CLI', () => {
+		const progress = new TraceProgress();
+		const updates = traces(sampleBuildKitOutput).map(s => progress.update(s));
+		const text = updates.map(u => u.text).join('');
+		expect(text).to.contain('#1 [internal] load build definition');
+		expect(text).to.contain(
+			'#1 transferring dockerfile: 37B done\n#1 DONE 0.1s\n',
+		);
+		expect(text).to.contain(
+			'#4 [1/2] FROM docker.io/library/alpine:3.10@sha256:',
+		);
+		expect(text).to.contain('#5 [2/2] RUN echo hello\n#5 hello\n#5 DONE 0.7s');
+
+		const events = _.flatMap(updates, u => u.events);
+		expect(_.filter(events, { type: 'step-start' })).to.deep.equal([
+			{
+				type: 'step-start',
+				step: 1,
+				totalSteps: 2,
+				instruction: 'FROM',
+				command:
+					'FROM docker.io/library/alpine:3.10@sha256:c19173c5ada610a5989151111163d28a67368362762534d8a8121ce95cf2bd5a',
+			},
+			{
+				type: 'step-start',
+				step: 2,
+				totalSteps: 2,
+				instruction: 'RUN',
+				command: 'RUN echo hello',
+			},
+		]);
+		expect(_.flatMap(updates, u => u.completed)).to.have.length(6);
+	});
+
+	it('reports vertex errors', () => {
+		const progress = new TraceProgress();
+		const updates = traces(sampleBuildKitFailureOutput).map(s =>
+			progress.update(s),
+		);
+		const text = updates.map(u => u.text).join('');
+		expect(text).to.contain(
+			'#5 ERROR: executor failed running [/bin/sh -c exit 1]: exit code: 1',
+		);
+		expect(text).to.contain('#5 WARNING: Empty continuation line');
+		// The failed vertex is not reported as completed
+		expect(_.flatMap(updates, u => u.completed)).to.have.length(4);
+	});
+});
@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+import { PassThrough } from 'stream';
+
+import { analyseCache, pullCacheSource } from '../src/cache';
+import { BuildEvent, DaemonMessage } from '../src/events';
+import { StepReport } from '../src/report';
+
+const steps = (commands: Array<[string, boolean]>): StepReport[] =>
+	commands.map(([command, cached], index) => ({
+		step: index + 1,
+		totalSteps: commands.length,
+		instruction: command.split(' ')[0],
+		command,
+		cached,
+		durationMs: 0,
+		outputBytes: 0,
+	}));
+
+describe('Build cache', () => {
+	it('maps the steps of builds to cache hits and misses', () => {
+		const analysis = analyseCache(
+			steps([
+				['FROM busybox', false],
+				['WORKDIR /app', true],
+				['COPY --chown=1000 package.json yarn.lock ./', true],
+				['RUN yarn', true],
+				['COPY src/ ./src/', false],
+				['RUN yarn build', false],
+			]),
+		);
+		expect(analysis).to.deep.equal({
+			steps: { 2: 'hit', 3: 'hit', 4: 'hit', 5: 'miss', 6: 'miss' },
+			hits: 3,
+			misses: 2,
+			invalidatedBy: {
+				step: 5,
+				command: 'COPY src/ ./src/',
+				cause: 'the files copied from src/ changed',
+			},
+		});
+		expect(
+			analyseCache(
+				steps([
+					['FROM busybox', false],
+					['RUN true', true],
+				]),
+			),
+		).to.deep.equal({ steps: { 2: 'hit' }, hits: 1, misses: 0 });
+	});
+
+	it('guesses why the cache was invalidated', () => {
+		const cause = (commands: Array<[string, boolean]>, nocache?: boolean) =>
+			analyseCache(steps(commands), nocache).invalidatedBy!.cause;
+		expect(
+			cause([
+				['FROM busybox', false],
+				['ARG VERSION', true],
+				['RUN echo $VERSION', false],
+			]),
+		).to.equal('the command, or a build argument it uses, changed');
+		expect(
+			cause([
+				['FROM busybox', false],
+				['RUN true', true],
+				['ADD ["a b", "c", "/app/"]', false],
+			]),
+		).to.equal('the files copied from a b, c changed');
+		expect(
+			cause([
+				['FROM busybox', false],
+				['ENV A=1', true],
+				['COPY --from=build /app/dist /dist', false],
+			]),
+		).to.equal('the files copied from /app/dist of build changed');
+		expect(
+			cause([
+				['FROM busybox', false],
+				['ENV A=1', false],
+			]),
+		).to.equal(
+			'the instruction changed, or the base image changed, or the cache ' +
+				'has no image built from it',
+		);
+		expect(
+			cause(
+				[
+					['FROM busybox', false],
+					['RUN true', false],
+				],
+				true,
+			),
+		).to.equal('the cache is disabled by the nocache build option');
+	});
+
+	it('pulls cache sources by their normalised references', async () => {
+		const pulls: Array<{ ref: string; options: any }> = [];
+		const docker: any = {
+			pull: (ref: string, options: any) => {
+				pulls.push({ ref, options });
+				const output: DaemonMessage[] = _.includes(ref, 'missing')
+					? [{ error: 'manifest unknown' }]
+					: [
+							{ status: 'Pulling from app', id: 'latest' },
+							{ status: 'Downloaded newer image for app:latest' },
+					  ];
+				const stream = new PassThrough();
+				stream.end(output.map(data => JSON.stringify(data)).join(''));
+				return Promise.resolve(stream);
+			},
+		};
+		const events: BuildEvent[] = [];
+		const auth = { username: 'user', password: 'secret' };
+		// Untagged references would pull every tag of the repository
+		await pullCacheSource(docker, 'app', auth, e => events.push(e));
+		expect(pulls).to.deep.equal([
+			{ ref: 'docker.io/library/app:latest', options: { authconfig: auth } },
+		]);
+		expect(_.map(events, 'type')).to.deep.equal([
+			'pull-progress',
+			'pull-progress',
+		]);
+
+		const error = await pullCacheSource(
+			docker,
+			'missing:latest',
+			undefined,
+			_.noop,
+		).catch((e: Error) => e);
+		expect(error).to.be.an.instanceOf(Error);
+		expect((error as Error).message).to.equal('manifest unknown');
+		expect(_.last(pulls)).to.deep.equal({
+			ref: 'docker.io/library/missing:latest',
+			options: {},
+		});
+	});
+});
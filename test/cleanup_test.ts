@@ -0,0 +1,132 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+
+import {
+	cleanupCandidates,
+	removeImages,
+	trackLayerOrigins,
+} from '../src/cleanup';
+import { parseDaemonMessage } from '../src/events';
+
+const fullId = (id: string) => `sha256:${_.padEnd(id, 64, '0')}`;
+
+/**
+ * A docker daemon with the given images, identified by truncated IDs
+ */
+class MockDocker {
+	public removed: string[] = [];
+	// Images used by containers
+	public inUse: string[] = [];
+
+	public constructor(
+		public images: Array<{ id: string; parent?: string; tags?: string[] }>,
+	) {}
+
+	public listImages() {
+		return Promise.resolve(
+			this.images.map(image => ({
+				Id: fullId(image.id),
+				ParentId: image.parent !== undefined ? fullId(image.parent) : '',
+			})),
+		);
+	}
+
+	public getImage(id: string) {
+		const image = _.find(this.images, { id });
+		return {
+			inspect: () =>
+				image === undefined
+					? Promise.reject(new Error('No such image'))
+					: Promise.resolve({
+							Id: fullId(id),
+							RepoTags: image.tags || [],
+							RepoDigests: [],
+					  }),
+			remove: () => {
+				if (_.includes(this.inUse, id)) {
+					return Promise.reject(new Error('image is being used'));
+				}
+				this.removed.push(id);
+				return Promise.resolve();
+			},
+		};
+	}
+}
+
+describe('Cleanup', () => {
+	it('tracks the origin of the layers of a build', () => {
+		const tracker = trackLayerOrigins();
+		const output = [
+			'Step 1/4 : FROM busybox\n',
+			' ---> aaaaaaaaaaaa\n',
+			'Step 2/4 : RUN true\n',
+			' ---> Using cache\n',
+			' ---> bbbbbbbbbbbb\n',
+			'Step 3/4 : RUN false\n',
+			' ---> Running in 0123456789ab\n',
+			' ---> cccccccccccc\n',
+			'Step 4/4 : FROM cccccccccccc\n',
+			' ---> cccccccccccc\n',
+		];
+		for (const stream of output) {
+			parseDaemonMessage({ stream }).forEach(tracker.record);
+		}
+		expect(
+			['aaaaaaaaaaaa', 'bbbbbbbbbbbb', 'cccccccccccc'].map(tracker.origin),
+		).to.deep.equal(['base', 'cached', 'built']);
+
+		const layers = ['aaaaaaaaaaaa', 'bbbbbbbbbbbb', 'cccccccccccc'];
+		expect(cleanupCandidates('none', layers, tracker.origin)).to.deep.equal([]);
+		expect(
+			cleanupCandidates('dangling', layers, tracker.origin),
+		).to.deep.equal(['cccccccccccc']);
+		expect(
+			cleanupCandidates('all-intermediate', layers, tracker.origin),
+		).to.deep.equal(['bbbbbbbbbbbb', 'cccccccccccc']);
+	});
+
+	it('removes the images that are not in use, newest first', async () => {
+		// A multi-stage build: `b` and `c` are the first stage, based on the
+		// tagged `a`, and `d` is the final image, also based on `a`. `e` is
+		// an image of another build based on `b`.
+		const docker = new MockDocker([
+			{ id: 'a', tags: ['base:latest'] },
+			{ id: 'b', parent: 'a' },
+			{ id: 'c', parent: 'b' },
+			{ id: 'd', parent: 'a' },
+			{ id: 'e', parent: 'b' },
+		]);
+		expect(
+			await removeImages(docker as any, ['a', 'b', 'c', 'd'], fullId('d')),
+		).to.deep.equal(['c']);
+		expect(docker.removed).to.deep.equal(['c']);
+
+		docker.images = docker.images.filter(image => image.id !== 'e');
+		docker.removed = [];
+		expect(
+			await removeImages(docker as any, ['a', 'b', 'c', 'd'], 'd'),
+		).to.deep.equal(['c', 'b']);
+
+		docker.removed = [];
+		docker.inUse = ['c'];
+		expect(
+			await removeImages(docker as any, ['b', 'c', 'd', 'missing']),
+		).to.deep.equal(['d']);
+	});
+});
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as _ from 'lodash';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar-stream';
+
+import * as Context from '../src/context';
+import { readDockerIgnore } from '../src/dockerignore';
+import { directoryToEntries } from '../src/utils';
+
+interface ExtractedEntry {
+	header: tar.Headers;
+	content: string;
+}
+
+/**
+ * Read a tar stream, collecting the headers and contents of its entries
+ */
+const extractEntries = (
+	stream: NodeJS.ReadableStream,
+): Promise<ExtractedEntry[]> => {
+	return new Promise((resolve, reject) => {
+		const entries: ExtractedEntry[] = [];
+		const extract = tar.extract();
+		extract.on('entry', (header, entryStream, next) => {
+			const chunks: Buffer[] = [];
+			entryStream.on('data', (chunk: Buffer) => chunks.push(chunk));
+			entryStream.on('end', () => {
+				entries.push({ header, content: Buffer.concat(chunks).toString() });
+				next();
+			});
+		});
+		extract.on('finish', () => resolve(entries));
+		extract.on('error', reject);
+		stream.pipe(extract);
+	});
+};
+
+describe('Build context', () => {
+	const dir = 'test/test-files/directory-dockerignore';
+
+	it('streams the files of a directory into a tar archive', async () => {
+		const contextEntries = await directoryToEntries(
+			dir,
+			await readDockerIgnore(dir),
+		);
+		const pack = tar.pack();
+		const [entries] = await Promise.all([
+			extractEntries(pack),
+			Context.packEntries(pack, dir, contextEntries),
+		]);
+		const regular = entries.filter(e => e.header.type === 'file');
+		expect(regular.map(e => e.header.name).sort()).to.deep.equal([
+			'.dockerignore',
+			'Dockerfile',
+			'build/keep.txt',
+			'src/index.js',
+			'src/vendor/important.js',
+		]);
+		for (const entry of regular) {
+			expect(entry.content).to.equal(
+				fs.readFileSync(path.join(dir, entry.header.name), 'utf8'),
+			);
+		}
+	});
+
+	it('fails when a file cannot be read', async () => {
+		const pack = tar.pack();
+		pack.resume();
+		let error: Error | undefined;
+		const stats = fs.statSync(path.join(dir, 'Dockerfile'));
+		await Context.packEntries(pack, dir, [
+			{ path: path.join(dir, 'missing'), stats },
+		]).catch((e: Error) => {
+			error = e;
+		});
+		expect(error)
+			.to.have.property('code')
+			.that.equals('ENOENT');
+	});
+
+	describe('file metadata', () => {
+		let tmpDir: string;
+
+		before(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'docker-build-'));
+			fs.writeFileSync(path.join(tmpDir, 'entrypoint.sh'), 'echo hello\n');
+			fs.chmodSync(path.join(tmpDir, 'entrypoint.sh'), 0o755);
+			fs.utimesSync(path.join(tmpDir, 'entrypoint.sh'), 1500000000, 1500000000);
+			fs.linkSync(
+				path.join(tmpDir, 'entrypoint.sh'),
+				path.join(tmpDir, 'linked.sh'),
+			);
+			fs.symlinkSync('entrypoint.sh', path.join(tmpDir, 'symlink.sh'));
+			fs.mkdirSync(path.join(tmpDir, 'empty'));
+		});
+
+		after(() => {
+			for (const name of ['entrypoint.sh', 'linked.sh', 'symlink.sh']) {
+				fs.unlinkSync(path.join(tmpDir, name));
+			}
+			fs.rmdirSync(path.join(tmpDir, 'empty'));
+			fs.rmdirSync(tmpDir);
+		});
+
+		const packTmpDir = async (opts?: Context.ContextOptions) => {
+			const pack = tar.pack();
+			const [entries] = await Promise.all([
+				extractEntries(pack),
+				directoryToEntries(tmpDir).then(items =>
+					Context.packEntries(pack, tmpDir, items, opts),
+				),
+			]);
+			return _.keyBy(entries, e => e.header.name.replace(/\/$/, ''));
+		};
+
+		it('preserves modes, mtimes, links and empty directories', async () => {
+			const entries = await packTmpDir();
+			expect(_.keys(entries).sort()).to.deep.equal([
+				'empty',
+				'entrypoint.sh',
+				'linked.sh',
+				'symlink.sh',
+			]);
+			expect(entries['empty'].header.type).to.equal('directory');
+			expect(entries['symlink.sh'].header).to.include({
+				type: 'symlink',
+				linkname: 'entrypoint.sh',
+			});
+
+			// Whichever of the hardlinked files comes first has the contents
+			const [file, link] = _.sortBy(
+				[entries['entrypoint.sh'], entries['linked.sh']],
+				e => (e.header.type === 'file' ? 0 : 1),
+			);
+			expect(file.header.type).to.equal('file');
+			expect(file.header.mode).to.equal(0o755);
+			expect(file.header.mtime!.getTime()).to.equal(1500000000000);
+			expect(file.content).to.equal('echo hello\n');
+			expect(link.header).to.include({
+				type: 'link',
+				linkname: file.header.name,
+			});
+			expect(file.header.uid).to.equal(process.getuid());
+		});
+
+		it('can normalise the owner of entries', async () => {
+			const entries = await packTmpDir({ normaliseOwnership: true });
+			for (const entry of _.values(entries)) {
+				expect(entry.header).to.include({ uid: 0, gid: 0 });
+			}
+		});
+	});
+
+	describe('reproducibility', () => {
+		const copies: string[] = [];
+
+		// Copy the fixture directory, with a different mtime for each copy
+		const copyFixture = (mtime: number) => {
+			const copy = fs.mkdtempSync(path.join(os.tmpdir(), 'docker-build-'));
+			const files = ['Dockerfile', 'src/index.js', 'src/debug.log'];
+			fs.mkdirSync(path.join(copy, 'src'));
+			for (const file of _.shuffle(files)) {
+				fs.copyFileSync(path.join(dir, file), path.join(copy, file));
+				fs.utimesSync(path.join(copy, file), mtime, mtime);
+			}
+			copies.push(copy);
+			return copy;
+		};
+
+		after(() => {
+			for (const copy of copies) {
+				for (const file of ['Dockerfile', 'src/index.js', 'src/debug.log']) {
+					fs.unlinkSync(path.join(copy, file));
+				}
+				fs.rmdirSync(path.join(copy, 'src'));
+				fs.rmdirSync(copy);
+			}
+		});
+
+		it('creates sorted archives with clamped mtimes', async () => {
+			const copy = copyFixture(1600000000);
+			const pack = tar.pack();
+			const [entries] = await Promise.all([
+				extractEntries(pack),
+				directoryToEntries(copy).then(items =>
+					Context.packEntries(pack, copy, _.reverse(items), {
+						deterministic: true,
+						sourceDateEpoch: 1500000000,
+					}),
+				),
+			]);
+			expect(entries.map(e => e.header.name)).to.deep.equal([
+				'Dockerfile',
+				'src/',
+				'src/debug.log',
+				'src/index.js',
+			]);
+			for (const { header } of entries) {
+				expect(header.mtime!.getTime()).to.equal(1500000000000);
+				expect(header).to.include({ uid: 0, gid: 0 });
+			}
+		});
+
+		it('calculates the same digest for the same contents', async () => {
+			const [first, second] = await Promise.all([
+				Context.contextDigest(copyFixture(1500000000)),
+				Context.contextDigest(copyFixture(1600000000)),
+			]);
+			expect(first).to.match(/^sha256:[a-f0-9]{64}$/);
+			expect(second).to.equal(first);
+
+			const changed = copyFixture(1600000000);
+			fs.writeFileSync(path.join(changed, 'src/index.js'), 'changed');
+			expect(await Context.contextDigest(changed)).to.not.equal(first);
+		});
+
+		it('takes the .dockerignore file into account', async () => {
+			const digest = await Context.contextDigest(dir);
+			fs.writeFileSync(path.join(dir, 'ignored.log'), 'ignored');
+			try {
+				expect(await Context.contextDigest(dir)).to.equal(digest);
+			} finally {
+				fs.unlinkSync(path.join(dir, 'ignored.log'));
+			}
+		});
+	});
+
+	describe('injected files', () => {
+		it('adds files to an archive, replacing those of the same name', async () => {
+			const pack = tar.pack();
+			pack.entry({ name: 'Dockerfile' }, 'FROM busybox\n');
+			pack.entry({ name: 'config.json' }, '{}');
+			pack.finalize();
+			const entries = await extractEntries(
+				pack.pipe(
+					Context.injectFiles([
+						{ name: './config.json', contents: Buffer.from('{"a":1}') },
+						{ name: 'run.sh', contents: Buffer.from('#!/bin/sh'), mode: 0o755 },
+					]),
+				),
+			);
+			expect(entries.map(e => [e.header.name, e.content])).to.deep.equal([
+				['Dockerfile', 'FROM busybox\n'],
+				['config.json', '{"a":1}'],
+				['run.sh', '#!/bin/sh'],
+			]);
+			expect(entries[1].header.mode).to.equal(0o644);
+			expect(entries[2].header.mode).to.equal(0o755);
+			expect(entries[2].header.mtime!.getTime()).to.equal(0);
+		});
+
+		it('fails when the archive is invalid', async () => {
+			const injector = Context.injectFiles([
+				{ name: 'file', contents: Buffer.from('contents') },
+			]);
+			const error: Error = await new Promise(resolve => {
+				injector.on('error', resolve);
+				injector.resume();
+				injector.end(Buffer.alloc(512, 'x'));
+			});
+			expect(error).to.be.an.instanceof(Error);
+		});
+	});
+});
@@ -0,0 +1,301 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+	findDockerfile,
+	parseDockerfile,
+	ParseOptions,
+	readDockerfile,
+	substituteVariables,
+} from '../src/dockerfile';
+import { DockerfileError } from '../src/errors';
+import { removeDirectory } from '../src/utils';
+import { makeTmpDir } from './test-files/remote_fixtures';
+
+const parseError = (
+	content: string,
+	options: ParseOptions = {},
+): DockerfileError => {
+	try {
+		parseDockerfile(content, {}, options);
+	} catch (error) {
+		expect(error).to.be.an.instanceOf(DockerfileError);
+		return error;
+	}
+	throw new Error('Expected the Dockerfile to be invalid');
+};
+
+describe('Dockerfile parser', () => {
+	it('parses instructions, flags and the exec form', () => {
+		const dockerfile = parseDockerfile(
+			[
+				'# A comment',
+				'FROM --platform=linux/amd64 debian:buster',
+				'',
+				'run apt-get update && \\',
+				'    # A comment in a continuation',
+				'    apt-get install -y curl',
+				'COPY --from=other --chown=1000 /src /dst',
+				'CMD ["node", "index.js"]',
+				'ENTRYPOINT [not json]',
+			].join('\n'),
+		);
+		expect(
+			dockerfile.instructions.map(i => [i.keyword, i.line, i.endLine]),
+		).to.deep.equal([
+			['FROM', 2, 2],
+			['RUN', 4, 6],
+			['COPY', 7, 7],
+			['CMD', 8, 8],
+			['ENTRYPOINT', 9, 9],
+		]);
+		const [from, run, copy, cmd, entrypoint] = dockerfile.instructions;
+		expect(from.flags).to.deep.equal({ platform: 'linux/amd64' });
+		expect(run.args).to.equal('apt-get update &&     apt-get install -y curl');
+		expect(copy.flags).to.deep.equal({ from: 'other', chown: '1000' });
+		expect(copy.args).to.equal('/src /dst');
+		expect(cmd.json).to.deep.equal(['node', 'index.js']);
+		expect(entrypoint.json).to.be.undefined;
+		expect(dockerfile.stages).to.have.length(1);
+		expect(dockerfile.stages[0]).to.include({
+			image: 'debian:buster',
+			platform: 'linux/amd64',
+		});
+	});
+
+	it('supports parser directives and the escape character', () => {
+		const dockerfile = parseDockerfile(
+			[
+				'# syntax=docker/dockerfile:1',
+				'# escape=`',
+				'FROM mcr.microsoft.com/windows/servercore',
+				'RUN dir c:\\ `',
+				'    && echo done',
+			].join('\n'),
+		);
+		expect(dockerfile.directives).to.deep.equal({
+			syntax: 'docker/dockerfile:1',
+			escape: '`',
+		});
+		expect(dockerfile.escapeChar).to.equal('`');
+		expect(dockerfile.instructions[1].args).to.equal(
+			'dir c:\\     && echo done',
+		);
+		// Directives are only recognised before anything else
+		expect(
+			parseDockerfile('FROM alpine\n# escape=`\n').directives,
+		).to.deep.equal({});
+		// Unknown directives are comments, which end the directives
+		const commented = parseDockerfile(
+			'# author=me\n# author=you\n# escape=`\nFROM alpine\n',
+		);
+		expect(commented.directives).to.deep.equal({});
+		expect(commented.escapeChar).to.equal('\\');
+		expect(
+			parseDockerfile('# check=skip=all\n# syntax=docker/dockerfile:1\nFROM a')
+				.directives,
+		).to.deep.equal({ check: 'skip=all', syntax: 'docker/dockerfile:1' });
+	});
+
+	it('parses heredocs', () => {
+		const dockerfile = parseDockerfile(
+			[
+				'FROM alpine',
+				'RUN <<EOF',
+				'echo $HOME',
+				'EOF',
+				'COPY <<-"FIRST" <<SECOND /dst/',
+				'\tunexpanded $HOME',
+				'\tFIRST',
+				'second',
+				'SECOND',
+				'USER nobody',
+			].join('\n'),
+			{},
+			{ buildkit: true },
+		);
+		const [, run, copy, user] = dockerfile.instructions;
+		expect(run.heredocs).to.deep.equal([
+			{ name: 'EOF', content: 'echo $HOME\n', expand: true, chomp: false },
+		]);
+		expect([run.line, run.endLine]).to.deep.equal([2, 4]);
+		expect(copy.heredocs).to.deep.equal([
+			{
+				name: 'FIRST',
+				content: 'unexpanded $HOME\n',
+				expand: false,
+				chomp: true,
+			},
+			{ name: 'SECOND', content: 'second\n', expand: true, chomp: false },
+		]);
+		expect(user.line).to.equal(10);
+	});
+
+	it('only parses heredocs started by a whole shell word', () => {
+		const dockerfile = parseDockerfile(
+			[
+				'FROM python',
+				'RUN python3 -c "print(1 << x)"',
+				'RUN bash -c \'cat <<< "hello"\'',
+				'RUN echo $((1 << 2)) && cat <<< hello',
+				'RUN cat 2<<EOF',
+				'EOF',
+			].join('\n'),
+			{},
+			{ buildkit: true },
+		);
+		expect(dockerfile.instructions.map(i => i.heredocs.length)).to.deep.equal([
+			0,
+			0,
+			0,
+			0,
+			1,
+		]);
+	});
+
+	it('only parses heredocs when the frontend supports them', () => {
+		const content = 'FROM alpine\nRUN <<EOF\necho\nEOF\n';
+		const heredocs = (text: string, options: ParseOptions) =>
+			parseDockerfile(text, {}, options).instructions[1].heredocs.length;
+		expect(heredocs(content, { buildkit: true })).to.equal(1);
+		expect(
+			parseError('FROM alpine\nRUN <<EOF\necho', { buildkit: true }).message,
+		).to.contain('line 2: unterminated heredoc <<EOF');
+		expect(
+			heredocs(`# syntax=docker/dockerfile:1\n${content}`, { buildkit: true }),
+		).to.equal(1);
+		expect(
+			heredocs(`# syntax=docker/dockerfile:1.3-labs\n${content}`, {
+				buildkit: true,
+			}),
+		).to.equal(1);
+		// The classic builder and old frontends pass `<<EOF` to the shell,
+		// and the daemon reports the lines that follow as instructions
+		expect(parseError(content).message).to.contain('unknown instruction: echo');
+		expect(
+			parseError(`# syntax=docker/dockerfile:1.2\n${content}`, {
+				buildkit: true,
+			}).message,
+		).to.contain('unknown instruction: echo');
+	});
+
+	it('substitutes the global ARGs in FROM instructions', () => {
+		const content = [
+			'ARG REGISTRY=docker.io',
+			'ARG BASE="alpine" TAG',
+			'FROM ${REGISTRY}/library/${BASE}:${TAG:-3.10} AS Build',
+			'ARG TAG',
+			'FROM build',
+			'FROM $UNSET_ARG${BASE}',
+		].join('\n');
+		const dockerfile = parseDockerfile(content);
+		expect(dockerfile.globalArgs).to.have.length(2);
+		expect(
+			dockerfile.stages.map(s => [s.image, s.name, s.baseStage]),
+		).to.deep.equal([
+			['docker.io/library/alpine:3.10', 'build', undefined],
+			['build', undefined, 0],
+			['alpine', undefined, undefined],
+		]);
+		expect(dockerfile.stages[0].instructions).to.have.length(1);
+		expect(
+			parseDockerfile(content, { TAG: '3.11', REGISTRY: 'example.com' })
+				.stages[0].image,
+		).to.equal('example.com/library/alpine:3.11');
+		// Null build args are taken from the environment of the daemon, which
+		// is not known
+		expect(
+			parseDockerfile(content, { TAG: null, REGISTRY: 'example.com' }).stages[0]
+				.image,
+		).to.equal('example.com/library/alpine:3.10');
+	});
+
+	it('substitutes variables', () => {
+		const vars = { A: 'a', EMPTY: '' };
+		expect(substituteVariables('$A-${A}_$B', vars)).to.equal('a-a_');
+		expect(
+			substituteVariables('${B:-b} ${EMPTY:-e} ${EMPTY-e}', vars),
+		).to.equal('b e ');
+		expect(substituteVariables('${A:+x} ${B:+x} ${EMPTY+x}', vars)).to.equal(
+			'x  x',
+		);
+		expect(substituteVariables('\\$A `$A $', vars, '`')).to.equal('\\a $A $');
+	});
+
+	it('reports problems with their line number', () => {
+		const cases: Array<[string, string]> = [
+			['FROM alpine\nFOO bar', 'line 2: unknown instruction: FOO'],
+			[
+				'\nRUN echo',
+				'line 2: RUN instruction before the first FROM instruction',
+			],
+			['FROM alpine\nRUN', 'line 2: RUN requires at least one argument'],
+			['FROM alpine as', 'line 1: FROM requires either one argument'],
+			['FROM alpine AS 1st', 'line 1: invalid name for build stage: "1st"'],
+			['ARG BASE\nFROM $BASE', 'line 2: base name ($BASE) should not be blank'],
+			['FROM alpine\nONBUILD FROM alpine', "line 2: FROM isn't allowed"],
+			['FROM alpine\nSHELL /bin/bash', 'line 2: SHELL requires the arguments'],
+			['# escape=x\nFROM alpine', "line 1: invalid escape token 'x'"],
+		];
+		for (const [content, message] of cases) {
+			expect(parseError(content).message).to.contain(
+				`Dockerfile parse error ${message}`,
+			);
+		}
+		const error = parseError('# Nothing\n');
+		expect(error.message).to.equal('the Dockerfile has no FROM instruction');
+		expect(error.line).to.be.undefined;
+		// Custom frontends can have their own instructions
+		expect(
+			parseDockerfile('# syntax=example/frontend\nFROM alpine\nFOO bar\n')
+				.instructions[1].keyword,
+		).to.equal('FOO');
+	});
+
+	it('reads the Dockerfile of a build context', async () => {
+		const dockerfile = await readDockerfile(
+			'test/test-files/directory-successful-build',
+		);
+		expect(dockerfile.stages[0].image).to.equal('debian:jessie');
+		let error: Error | undefined;
+		await readDockerfile('test/test-files/directory-no-dockerfile').catch(
+			(e: Error) => (error = e),
+		);
+		expect(error).to.be.an.instanceOf(DockerfileError);
+		expect(error)
+			.to.have.property('message')
+			.that.equals('Cannot locate specified Dockerfile: Dockerfile');
+	});
+
+	it('falls back to a lowercase dockerfile as the daemon does', async () => {
+		const tmpDir = makeTmpDir();
+		try {
+			fs.writeFileSync(path.join(tmpDir, 'dockerfile'), 'FROM alpine\n');
+			expect(await findDockerfile(tmpDir)).to.equal('dockerfile');
+			expect((await readDockerfile(tmpDir)).stages[0].image).to.equal('alpine');
+			// Only when no Dockerfile is given
+			expect(await findDockerfile(tmpDir, 'Dockerfile')).to.equal('Dockerfile');
+			fs.writeFileSync(path.join(tmpDir, 'Dockerfile'), 'FROM busybox\n');
+			expect(await findDockerfile(tmpDir)).to.equal('Dockerfile');
+		} finally {
+			removeDirectory(tmpDir);
+		}
+	});
+});
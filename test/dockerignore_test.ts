@@ -0,0 +1,136 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import {
+	IgnoreMatcher,
+	parseDockerIgnore,
+	readDockerIgnore,
+} from '../src/dockerignore';
+import { directoryToFiles, removeDirectory } from '../src/utils';
+import { makeTmpDir } from './test-files/remote_fixtures';
+
+describe('dockerignore', () => {
+	it('parses .dockerignore files like the docker CLI', () => {
+		expect(
+			parseDockerIgnore(
+				[
+					'# comment',
+					'',
+					'  node_modules/  ',
+					'/absolute/path',
+					'!  keep.me',
+					'./a/../b/*.txt',
+					' # not a comment',
+				].join('\n'),
+			),
+		).to.deep.equal([
+			'node_modules',
+			'absolute/path',
+			'!keep.me',
+			'b/*.txt',
+			'# not a comment',
+		]);
+	});
+
+	it('matches patterns with the docker daemon semantics', () => {
+		const cases: Array<[string[], string, boolean]> = [
+			[['*'], 'fileutils.go', true],
+			[['*.go'], 'fileutils.go', true],
+			[['*.go'], 'dir/fileutils.go', false],
+			[['**/*.go'], 'dir/fileutils.go', true],
+			[['**/*.go'], 'fileutils.go', true],
+			[['**'], 'a/b/c', true],
+			[['a/**/c'], 'a/c', true],
+			[['a/**/c'], 'a/b/x/c', true],
+			[['a/?'], 'a/b', true],
+			[['a/?'], 'a/bc', false],
+			[['dir'], 'dir/sub/file', true],
+			[['dir/*'], 'dir/sub/file', true],
+			[['docs'], 'docsfile', false],
+			[['[a-c]*'], 'bar', true],
+			[['[a-c]*'], 'dar', false],
+			[['a.b'], 'axb', false],
+			[['\\*'], '*', true],
+			[['\\*'], 'x', false],
+			[['*.md', '!README.md'], 'README.md', false],
+			[['*.md', '!README.md'], 'CHANGELOG.md', true],
+			[['*.md', '!README.md', 'README.md'], 'README.md', true],
+			[['!README.md'], 'README.md', false],
+			[['dir', '!dir/keep'], 'dir/keep', false],
+			[['dir', '!dir/keep'], 'dir/other', true],
+		];
+		for (const [patterns, file, expected] of cases) {
+			expect(new IgnoreMatcher(patterns).ignores(file)).to.equal(
+				expected,
+				`${JSON.stringify(patterns)} on ${file}`,
+			);
+		}
+	});
+
+	it('rejects a lone exclusion pattern', () => {
+		expect(() => new IgnoreMatcher(['!'])).to.throw(
+			'Illegal exclusion pattern',
+		);
+	});
+
+	it('only walks ignored directories when an exclusion could apply', () => {
+		const matcher = new IgnoreMatcher(['build', '!build/keep.txt', 'tmp']);
+		expect(matcher.mustWalk('build')).to.equal(true);
+		expect(matcher.mustWalk('tmp')).to.equal(false);
+	});
+
+	it('always keeps the Dockerfile and .dockerignore', () => {
+		const matcher = IgnoreMatcher.fromDockerIgnore('*\n', [
+			'.dockerignore',
+			'docker/Dockerfile.prod',
+		]);
+		expect(matcher.ignores('.dockerignore')).to.equal(false);
+		expect(matcher.ignores('docker/Dockerfile.prod')).to.equal(false);
+		expect(matcher.ignores('docker/other')).to.equal(true);
+	});
+
+	it('keeps a lowercase dockerfile used by default', async () => {
+		const tmpDir = makeTmpDir();
+		try {
+			fs.writeFileSync(path.join(tmpDir, 'dockerfile'), 'FROM alpine\n');
+			fs.writeFileSync(path.join(tmpDir, '.dockerignore'), '*file\n');
+			const matcher = await readDockerIgnore(tmpDir);
+			expect(matcher.ignores('dockerfile')).to.equal(false);
+			expect(matcher.ignores('Makefile')).to.equal(true);
+		} finally {
+			removeDirectory(tmpDir);
+		}
+	});
+
+	it('filters the files of a directory', async () => {
+		const dir = 'test/test-files/directory-dockerignore';
+		const matcher = await readDockerIgnore(dir);
+		const files = await directoryToFiles(dir, matcher);
+		expect(
+			files.map(f => path.relative(path.resolve(dir), f)).sort(),
+		).to.deep.equal([
+			'.dockerignore',
+			'Dockerfile',
+			'build/keep.txt',
+			'src/index.js',
+			'src/vendor/important.js',
+		]);
+	});
+});
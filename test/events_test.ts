@@ -0,0 +1,195 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+
+import {
+	BuildEvent,
+	parseDaemonMessage,
+	parsePushMessage,
+} from '../src/events';
+import { sampleDaemonOutput } from './test-files/sample_daemon_output';
+
+describe('Build events', () => {
+	it('parses step starts', () => {
+		expect(
+			parseDaemonMessage({ stream: 'Step 2/7 : EXPOSE 5000\n' }),
+		).to.deep.equal([
+			{
+				type: 'step-start',
+				step: 2,
+				totalSteps: 7,
+				instruction: 'EXPOSE',
+				command: 'EXPOSE 5000',
+			},
+		]);
+		expect(
+			parseDaemonMessage({ stream: 'Step 1 : from debian:jessie\n' }),
+		).to.deep.equal([
+			{
+				type: 'step-start',
+				step: 1,
+				instruction: 'FROM',
+				command: 'from debian:jessie',
+			},
+		]);
+	});
+
+	it('parses layers, warnings and output', () => {
+		expect(
+			parseDaemonMessage({ stream: ' ---> 4e3f9fe5ab5d\n' }),
+		).to.deep.equal([{ type: 'layer-created', layer: '4e3f9fe5ab5d' }]);
+		expect(
+			parseDaemonMessage({
+				stream: '[Warning] One or more build-args [FOO] were not consumed\n',
+			}),
+		).to.deep.equal([
+			{
+				type: 'warning',
+				message: 'One or more build-args [FOO] were not consumed',
+			},
+		]);
+		expect(
+			parseDaemonMessage({
+				stream:
+					" ---> [Warning] The requested image's platform (linux/arm64) " +
+					'does not match the detected host platform (linux/amd64)\n',
+			}),
+		).to.deep.equal([
+			{
+				type: 'warning',
+				message:
+					"The requested image's platform (linux/arm64) does not match " +
+					'the detected host platform (linux/amd64)',
+			},
+		]);
+		expect(
+			parseDaemonMessage({
+				stream:
+					'DEPRECATED: The legacy builder is deprecated and will be ' +
+					'removed in a future release.\n',
+			}),
+		).to.deep.equal([
+			{
+				type: 'warning',
+				message:
+					'The legacy builder is deprecated and will be removed in a ' +
+					'future release.',
+				deprecation: true,
+			},
+		]);
+		expect(parseDaemonMessage({ stream: 'hello\n' })).to.deep.equal([
+			{ type: 'step-output', text: 'hello\n' },
+		]);
+	});
+
+	it('parses pull progress, aux image IDs and errors', () => {
+		expect(
+			parseDaemonMessage({
+				status: 'Downloading',
+				progressDetail: { current: 21176, total: 2034577 },
+				progress: '[>   ]  21.18kB/2.035MB',
+				id: 'ad0eac849f8f',
+			}),
+		).to.deep.equal([
+			{
+				type: 'pull-progress',
+				status: 'Downloading',
+				id: 'ad0eac849f8f',
+				current: 21176,
+				total: 2034577,
+				progress: '[>   ]  21.18kB/2.035MB',
+			},
+		]);
+		expect(
+			parseDaemonMessage({ aux: { ID: 'sha256:0123456789abcdef' } }),
+		).to.deep.equal([
+			{ type: 'aux-image-id', imageId: 'sha256:0123456789abcdef' },
+		]);
+		expect(
+			parseDaemonMessage({
+				error: 'The command returned a non-zero code: 127',
+				errorDetail: {
+					code: 127,
+					message: 'The command returned a non-zero code: 127',
+				},
+			}),
+		).to.deep.equal([
+			{
+				type: 'error',
+				message: 'The command returned a non-zero code: 127',
+				code: 127,
+			},
+		]);
+	});
+
+	it('parses push progress and the digest of pushed images', () => {
+		const reference = 'myregistry:5000/img:1.0';
+		expect(
+			parsePushMessage(reference, {
+				status: 'Pushing',
+				progressDetail: { current: 512, total: 1024 },
+				id: 'ad0eac849f8f',
+			}),
+		).to.deep.equal([
+			{
+				type: 'push-progress',
+				reference,
+				status: 'Pushing',
+				id: 'ad0eac849f8f',
+				current: 512,
+				total: 1024,
+			},
+		]);
+		expect(
+			parsePushMessage(reference, {
+				aux: { Tag: '1.0', Digest: 'sha256:0123456789abcdef', Size: 528 },
+			}),
+		).to.deep.equal([
+			{
+				type: 'image-pushed',
+				reference,
+				digest: 'sha256:0123456789abcdef',
+				size: 528,
+			},
+		]);
+		expect(
+			parsePushMessage(reference, {
+				error: 'denied: requested access to the resource is denied',
+			}),
+		).to.deep.equal([
+			{
+				type: 'error',
+				message: 'denied: requested access to the resource is denied',
+			},
+		]);
+	});
+
+	it('parses recorded daemon output', () => {
+		const events: BuildEvent[] = _.flatMap(sampleDaemonOutput, data =>
+			parseDaemonMessage(data),
+		);
+		const counts = _.countBy(events, 'type');
+		// The recording starts at the second step
+		expect(counts['step-start']).to.equal(6);
+		expect(counts['error']).to.equal(undefined);
+		expect(_.find(events, { type: 'step-start', step: 7 })).to.include({
+			instruction: 'RUN',
+			totalSteps: 7,
+		});
+	});
+});
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { BuildGraphError, BuildOptionsError } from '../src/errors';
+import * as MultiBuild from '../src/multibuild';
+import { removeDirectory } from '../src/utils';
+import { makeTmpDir } from './test-files/remote_fixtures';
+
+describe('Multi-image builds', () => {
+	let tmpDir: string;
+
+	before(() => {
+		tmpDir = makeTmpDir();
+	});
+
+	after(() => removeDirectory(tmpDir));
+
+	// Create a build context with the given Dockerfile
+	const image = (
+		name: string,
+		dockerfile: string,
+		buildOpts = {},
+	): MultiBuild.ImageBuild => {
+		const context = fs.mkdtempSync(path.join(tmpDir, `${name}-`));
+		fs.writeFileSync(path.join(context, 'Dockerfile'), dockerfile);
+		return { name, context, buildOpts };
+	};
+
+	const buildOrder = async (images: MultiBuild.ImageBuild[]) =>
+		(await MultiBuild.resolveBuildOrder(images)).map(node => [
+			node.image.name,
+			node.dependencies,
+		]);
+
+	it('lists the external base images of a Dockerfile', () => {
+		expect(
+			MultiBuild.dockerfileBaseImages(
+				[
+					'FROM golang:1.13 as build',
+					'RUN go build',
+					'FROM build as test',
+					'FROM my/base',
+					'COPY --from=build /app /app',
+					'FROM golang:1.13',
+				].join('\n'),
+			),
+		).to.deep.equal(['golang:1.13', 'my/base:latest']);
+	});
+
+	it('substitutes build args and joins continuation lines', () => {
+		expect(
+			MultiBuild.dockerfileBaseImages(
+				[
+					'ARG BASE=alpine',
+					'ARG TAG',
+					'FROM ${BASE} AS base',
+					'FROM \\',
+					'  my/tools:${TAG} \\',
+					'  AS tools',
+					'FROM base',
+				].join('\n'),
+				{ TAG: '1.0' },
+			),
+		).to.deep.equal(['alpine:latest', 'my/tools:1.0']);
+	});
+
+	it('finds the dependencies of images built FROM build args', async () => {
+		expect(
+			await buildOrder([
+				image('app', 'ARG BASE=base\nFROM ${BASE}\n'),
+				image('tools', 'ARG BASE\nFROM \\\n  ${BASE}\n', {
+					buildargs: { BASE: 'app' },
+				}),
+				image('base', 'FROM alpine\n'),
+			]),
+		).to.deep.equal([
+			['base', []],
+			['app', ['base']],
+			['tools', ['app']],
+		]);
+	});
+
+	it('reads lowercase dockerfiles as the daemon does', async () => {
+		const app = image('app', '');
+		fs.unlinkSync(path.join(app.context, 'Dockerfile'));
+		fs.writeFileSync(path.join(app.context, 'dockerfile'), 'FROM base\n');
+		expect(
+			await buildOrder([app, image('base', 'FROM alpine\n')]),
+		).to.deep.equal([
+			['base', []],
+			['app', ['base']],
+		]);
+	});
+
+	it('sorts images after the images they are built FROM', async () => {
+		expect(
+			await buildOrder([
+				image('api', 'FROM base\n'),
+				image('worker', 'FROM api:latest as api\nFROM tools:1.0\n'),
+				image('base', 'FROM alpine\n'),
+				image('tools', 'FROM base\n', { t: 'tools:1.0' }),
+				image('frontend', 'FROM node:12\n'),
+			]),
+		).to.deep.equal([
+			['base', []],
+			['frontend', []],
+			['api', ['base']],
+			['tools', ['base']],
+			['worker', ['api', 'tools']],
+		]);
+	});
+
+	it('rejects cycles and duplicate names', async () => {
+		let error: BuildGraphError | undefined;
+		await buildOrder([
+			image('a', 'FROM c\n'),
+			image('b', 'FROM a\n'),
+			image('c', 'FROM b\n'),
+			image('d', 'FROM alpine\n'),
+		]).catch(e => (error = e));
+		expect(error).to.be.an.instanceOf(BuildGraphError);
+		expect(error!.images).to.deep.equal(['a', 'b', 'c']);
+
+		await buildOrder([
+			image('a', 'FROM alpine\n'),
+			image('b', 'FROM alpine\n', { t: 'a:latest' }),
+		]).catch(e => (error = e));
+		expect(error)
+			.to.have.property('message')
+			.that.equals('Images a and b have the same name');
+	});
+
+	it('limits the number of tasks running at the same time', async () => {
+		const limit = MultiBuild.concurrencyLimiter(2);
+		let running = 0;
+		let maxRunning = 0;
+		const task = () => {
+			running++;
+			maxRunning = Math.max(running, maxRunning);
+			return new Promise<void>(resolve =>
+				setTimeout(() => {
+					running--;
+					resolve();
+				}, 5),
+			);
+		};
+		await Promise.all([1, 2, 3, 4, 5].map(() => limit(task)));
+		expect(maxRunning).to.equal(2);
+	});
+
+	it('rejects concurrencies that would never run a task', () => {
+		for (const concurrency of [0, -1, 1.5, NaN, Infinity]) {
+			expect(() => MultiBuild.concurrencyLimiter(concurrency))
+				.to.throw(BuildOptionsError)
+				.with.property(
+					'message',
+					'Invalid build option "concurrency": must be an integer greater than or equal to 1',
+				);
+		}
+	});
+});
@@ -0,0 +1,146 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+
+import { BuildOptionsError } from '../src/errors';
+import { BuildOptions, validateBuildOptions } from '../src/options';
+
+const validationError = (buildOpts: any): BuildOptionsError | undefined => {
+	try {
+		validateBuildOptions(buildOpts);
+	} catch (error) {
+		expect(error).to.be.an.instanceOf(BuildOptionsError);
+		return error;
+	}
+};
+
+describe('Build options validation', () => {
+	it('accepts valid options', () => {
+		const buildOpts: BuildOptions = {
+			t: ['my-registry:5000/org/app:v1.2', 'app'],
+			dockerfile: 'docker/Dockerfile.arm',
+			buildargs: { VERSION: '1.0' },
+			labels: { 'io.balena.app': 'app' },
+			target: 'runtime',
+			platform: 'linux/arm/v7',
+			cachefrom: ['app:latest'],
+			pull: true,
+			nocache: false,
+			squash: false,
+			networkmode: 'host',
+			extrahosts: 'db:10.0.0.2,cache:10.0.0.3',
+			memory: 1024 * 1024 * 1024,
+			memswap: -1,
+			cpushares: 512,
+			cpusetcpus: '0-1,3',
+			cpuperiod: 100000,
+			cpuquota: 50000,
+			shmsize: 64 * 1024 * 1024,
+			version: '2',
+		};
+		expect(validationError(buildOpts)).to.be.undefined;
+		expect(validationError({})).to.be.undefined;
+		// Any image reference without a digest
+		expect(
+			validationError({
+				t: ['my--app', 'my__app', 'Registry.Example.com/app:1'],
+			}),
+		).to.be.undefined;
+		expect(validationError({ t: undefined })).to.be.undefined;
+	});
+
+	it('suggests the option meant by unknown options', () => {
+		expect(validationError({ noCache: true })).to.have.property(
+			'message',
+			'Invalid build option "noCache": unknown option, did you mean "nocache"?',
+		);
+		expect(validationError({ buildArgs: {} }))
+			.to.have.property('message')
+			.that.contains('did you mean "buildargs"?');
+		expect(validationError({ targt: 'app' }))
+			.to.have.property('message')
+			.that.contains('did you mean "target"?');
+		expect(validationError({ Q: true }))
+			.to.have.property('message')
+			.that.contains('did you mean "q"?');
+	});
+
+	it('passes other unknown options to the daemon', () => {
+		// e.g. a parameter of a newer daemon
+		expect(validationError({ somethingElse: 1 })).to.be.undefined;
+		// Short options are not taken for typos of `t` or `q`
+		expect(validationError({ id: 'build', ui: true, tag: 'app' })).to.be
+			.undefined;
+		// Nor are options that differ by more than a third of their characters
+		expect(validationError({ cpucount: 2, secrets: [] })).to.be.undefined;
+		expect(
+			validationError({
+				remote: 'https://github.com/balena-io/app.git',
+				cpusetmems: '0',
+				cgroupparent: 'builds',
+				isolation: 'hyperv',
+				ulimits: [{ Name: 'nofile', Soft: 1024, Hard: 2048 }],
+				outputs: [{ Type: 'local', Attrs: { dest: 'out' } }],
+			}),
+		).to.be.undefined;
+	});
+
+	it('rejects Dockerfiles outside of the build context', () => {
+		for (const dockerfile of ['../Dockerfile', '/Dockerfile', 'a/../../b']) {
+			expect(validationError({ dockerfile }))
+				.to.have.property('option')
+				.that.equals('dockerfile');
+		}
+		expect(validationError({ dockerfile: 'a/../Dockerfile' })).to.be.undefined;
+	});
+
+	it('rejects values of the wrong type or format', () => {
+		const invalid: Array<[string, any]> = [
+			['t', 'My-App'],
+			['t', ['app', 3]],
+			['t', `app@sha256:${'a'.repeat(64)}`],
+			['ulimits', { nofile: 1024 }],
+			['buildargs', { PORT: 80 }],
+			['cachefrom', 'app:latest'],
+			['pull', 'true'],
+			['platform', 'linux amd64'],
+			['extrahosts', 'db'],
+			['memory', '1g'],
+			['memswap', -2],
+			['cpusetcpus', 'all'],
+			['version', 2],
+		];
+		for (const [option, value] of invalid) {
+			expect(validationError({ [option]: value }))
+				.to.have.property('option')
+				.that.equals(option);
+		}
+		expect(validationError({ buildargs: { PORT: 80 } })).to.have.property(
+			'message',
+			'Invalid build option "buildargs": the value of "PORT" must be a string or null',
+		);
+		expect(validationError({ labels: { ci: null } })).to.have.property(
+			'message',
+			'Invalid build option "labels": the value of "ci" must be a string',
+		);
+	});
+
+	it('accepts null build args, taken from the environment of the daemon', () => {
+		expect(validationError({ buildargs: { TOKEN: null, VERSION: '1' } })).to.be
+			.undefined;
+	});
+});
@@ -0,0 +1,371 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+import { PassThrough, Readable } from 'stream';
+
+import {
+	BaseImageAuthError,
+	BaseImageError,
+	BaseImageNotFoundError,
+	BuilderError,
+	DaemonBuildError,
+	DaemonOutputError,
+	DaemonRequestError,
+	DockerfileError,
+	RunStepError,
+} from '../src/errors';
+import { BuildEvent, DaemonMessage } from '../src/events';
+import {
+	classifyDaemonError,
+	getDockerDaemonBuildOutputParserStream,
+	splitJSONObjects,
+} from '../src/parser';
+import { FromTagInfo } from '../src/plugin';
+
+/**
+ * Write chunks to a JSON splitter, and collect the objects it outputs
+ */
+const split = (chunks: Array<string | Buffer>) =>
+	new Promise<{ objects: any[]; error?: Error }>(resolve => {
+		const objects: any[] = [];
+		const splitter = splitJSONObjects();
+		splitter
+			.on('data', (data: any) => objects.push(data))
+			.on('error', (error: Error) => resolve({ objects, error }))
+			.on('end', () => resolve({ objects }));
+		chunks.forEach(chunk => splitter.write(chunk));
+		splitter.end();
+	});
+
+const daemonStream = (output: string) => {
+	const stream = new PassThrough();
+	stream.end(output);
+	return stream;
+};
+
+/**
+ * Parse the output of a build, and collect what the parser reports
+ */
+const parse = (stream: Readable) =>
+	new Promise<{
+		text: string;
+		events: BuildEvent[];
+		messages: DaemonMessage[];
+		layers: string[];
+		fromTags: FromTagInfo[];
+		error?: Error;
+	}>(resolve => {
+		const result = {
+			text: '',
+			events: [] as BuildEvent[],
+			messages: [] as DaemonMessage[],
+			layers: [] as string[],
+			fromTags: [] as FromTagInfo[],
+		};
+		getDockerDaemonBuildOutputParserStream(
+			stream,
+			result.layers,
+			result.fromTags,
+			error => resolve({ ...result, error }),
+			event => result.events.push(event),
+			message => result.messages.push(message),
+		)
+			.on('data', (text: string) => (result.text += text))
+			.on('end', () => resolve(result));
+	});
+
+describe('Daemon output parser', () => {
+	describe('JSON splitter', () => {
+		it('splits concatenated and whitespace separated objects', async () => {
+			const { objects } = await split([
+				'{"stream":"a"}{"stream":"b"}\n',
+				'\r\n  {"aux":{"ID":"sha256:c"}} ',
+			]);
+			expect(objects).to.deep.equal([
+				{ stream: 'a' },
+				{ stream: 'b' },
+				{ aux: { ID: 'sha256:c' } },
+			]);
+		});
+
+		it('reassembles objects split across chunks', async () => {
+			const output = Buffer.from(
+				JSON.stringify({ stream: 'braces } { and "quotes" \\ ✓\n' }) +
+					JSON.stringify({ status: 'x', progressDetail: { total: [1] } }),
+			);
+			// Every byte in its own chunk, splitting multibyte characters
+			const { objects } = await split(
+				_.range(output.length).map(i => output.slice(i, i + 1)),
+			);
+			expect(objects).to.deep.equal([
+				{ stream: 'braces } { and "quotes" \\ ✓\n' },
+				{ status: 'x', progressDetail: { total: [1] } },
+			]);
+		});
+
+		it('fails on text that is not JSON', async () => {
+			const { objects, error } = await split([
+				'{"stream":"Step 1/2 : FROM busybox\\n"}',
+				'<html><body>502 Bad Gateway</body></html>',
+				'{"stream":"never parsed"}',
+			]);
+			expect(objects).to.deep.equal([{ stream: 'Step 1/2 : FROM busybox\n' }]);
+			expect(error).to.be.an.instanceOf(DaemonOutputError);
+			expect((error as DaemonOutputError).reason).to.equal('unexpected text');
+			expect((error as DaemonOutputError).excerpt).to.equal(
+				'<html><body>502 Bad Gateway</body></html>',
+			);
+		});
+
+		it('fails on invalid and truncated objects', async () => {
+			const invalid = await split(['{"stream": nope}']);
+			expect(invalid.error).to.be.an.instanceOf(DaemonOutputError);
+			expect((invalid.error as DaemonOutputError).excerpt).to.equal(
+				'{"stream": nope}',
+			);
+
+			const truncated = await split(['{"stream":"a"}{"stream":"b', 'c']);
+			expect(truncated.objects).to.deep.equal([{ stream: 'a' }]);
+			expect(truncated.error).to.be.an.instanceOf(DaemonOutputError);
+			expect(truncated.error!.message).to.equal(
+				'Malformed output from the docker daemon: truncated JSON ' +
+					'object: "{\\"stream\\":\\"bc"',
+			);
+		});
+	});
+
+	it('parses the output of builds', async () => {
+		const output: DaemonMessage[] = [
+			{ stream: 'Step 1/3 : FROM busybox AS base\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 2/3 : FROM base\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 3/3 : RUN true\n' },
+			{ stream: '[Warning] One or more build-args [FOO] were not consumed\n' },
+			{ stream: ' ---> bbbbbbbbbbbb\n' },
+		];
+		const result = await parse(
+			daemonStream(output.map(data => JSON.stringify(data)).join('')),
+		);
+		expect(result.error).to.be.undefined;
+		expect(result.messages).to.deep.equal(output);
+		expect(result.text).to.equal(_.map(output, 'stream').join(''));
+		expect(result.layers).to.deep.equal([
+			'aaaaaaaaaaaa',
+			'aaaaaaaaaaaa',
+			'bbbbbbbbbbbb',
+		]);
+		expect(_.map(result.fromTags, 'reference')).to.deep.equal([
+			'docker.io/library/busybox:latest',
+		]);
+		expect(_.filter(result.events, { type: 'warning' })).to.deep.equal([
+			{
+				type: 'warning',
+				message: 'One or more build-args [FOO] were not consumed',
+			},
+		]);
+	});
+
+	it('fails with the errors of the daemon and their code', async () => {
+		const result = await parse(
+			daemonStream(
+				JSON.stringify({ stream: 'Step 1/1 : RUN exit 3\n' }) +
+					JSON.stringify({
+						errorDetail: {
+							code: 3,
+							message:
+								"The command '/bin/sh -c exit 3' returned a non-zero code: 3",
+						},
+						error:
+							"The command '/bin/sh -c exit 3' returned a non-zero code: 3",
+					}),
+			),
+		);
+		expect(result.error).to.be.an.instanceOf(DaemonBuildError);
+		expect((result.error as DaemonBuildError).code).to.equal(3);
+		expect(result.error!.message).to.equal(
+			"The command '/bin/sh -c exit 3' returned a non-zero code: 3",
+		);
+		expect(_.last(result.events)).to.deep.equal({
+			type: 'error',
+			message: "The command '/bin/sh -c exit 3' returned a non-zero code: 3",
+			code: 3,
+		});
+
+		const detailOnly = await parse(
+			daemonStream(JSON.stringify({ errorDetail: { message: 'failed' } })),
+		);
+		expect(detailOnly.error).to.be.an.instanceOf(DaemonBuildError);
+		expect((detailOnly.error as DaemonBuildError).code).to.be.undefined;
+	});
+
+	it('fails cleanly on malformed output', async () => {
+		const result = await parse(
+			daemonStream(
+				JSON.stringify({ stream: 'Step 1/1 : FROM busybox\n' }) +
+					'<html>Proxy error</html>',
+			),
+		);
+		expect(result.error).to.be.an.instanceOf(DaemonOutputError);
+		expect(result.text).to.equal('Step 1/1 : FROM busybox\n');
+	});
+
+	describe('error classification', () => {
+		const runStep = { step: 2, instruction: 'RUN', command: 'RUN make' };
+		const fromStep = {
+			step: 1,
+			instruction: 'FROM',
+			command: 'FROM --platform=linux/arm64 private/base:1 AS build',
+		};
+
+		it('classifies failed RUN commands', () => {
+			const classic = classifyDaemonError(
+				"The command '/bin/sh -c make' returned a non-zero code: 2",
+				2,
+				runStep,
+			) as RunStepError;
+			expect(classic).to.be.an.instanceOf(RunStepError);
+			expect(classic).to.be.an.instanceOf(DaemonBuildError);
+			expect(classic).to.be.an.instanceOf(BuilderError);
+			expect(
+				_.pick(classic, 'exitCode', 'code', 'step', 'instruction', 'command'),
+			).to.deep.equal({
+				exitCode: 2,
+				code: 2,
+				step: 2,
+				instruction: 'RUN',
+				command: 'RUN make',
+			});
+			const buildKit = classifyDaemonError(
+				'failed to solve: process "/bin/sh -c make" did not complete ' +
+					'successfully: exit code: 127',
+			) as RunStepError;
+			expect(buildKit).to.be.an.instanceOf(RunStepError);
+			expect(buildKit.exitCode).to.equal(127);
+			expect(buildKit.step).to.be.undefined;
+		});
+
+		it('classifies Dockerfile errors', () => {
+			const error = classifyDaemonError(
+				'Dockerfile parse error line 3: unknown instruction: RUNN',
+			) as DockerfileError;
+			expect(error).to.be.an.instanceOf(DockerfileError);
+			expect(error.line).to.equal(3);
+			expect(error.reason).to.equal('unknown instruction: RUNN');
+			expect(
+				_.pick(
+					classifyDaemonError(
+						'failed to solve: dockerfile parse error on line 5: unknown flag: chmod',
+					),
+					'line',
+					'reason',
+				),
+			).to.deep.equal({ line: 5, reason: 'unknown flag: chmod' });
+		});
+
+		it('classifies base image failures', () => {
+			const notFound = classifyDaemonError(
+				'manifest for busybox:nope not found: manifest unknown: manifest unknown',
+			) as BaseImageError;
+			expect(notFound).to.be.an.instanceOf(BaseImageNotFoundError);
+			expect(notFound.reference).to.equal('busybox:nope');
+
+			const denied = classifyDaemonError(
+				'pull access denied for private/base, repository does not exist or ' +
+					"may require 'docker login': denied: requested access to the " +
+					'resource is denied',
+				undefined,
+				fromStep,
+			) as BaseImageError;
+			expect(denied).to.be.an.instanceOf(BaseImageNotFoundError);
+			expect(denied.reference).to.equal('private/base');
+			expect(denied.step).to.equal(1);
+
+			const unauthorized = classifyDaemonError(
+				'Head "https://registry.example.com/v2/private/base/manifests/1": ' +
+					'unauthorized: authentication required',
+				undefined,
+				fromStep,
+			) as BaseImageError;
+			expect(unauthorized).to.be.an.instanceOf(BaseImageAuthError);
+			expect(unauthorized.reference).to.equal('private/base:1');
+
+			const buildKit = classifyDaemonError(
+				'failed to solve: failed to resolve source metadata for ' +
+					'docker.io/library/busybox:nope: docker.io/library/busybox:nope: not found',
+			) as BaseImageError;
+			expect(buildKit).to.be.an.instanceOf(BaseImageNotFoundError);
+			expect(buildKit.reference).to.equal('docker.io/library/busybox:nope');
+
+			const other = classifyDaemonError(
+				'Get "https://registry.example.com/v2/": net/http: TLS handshake timeout',
+				undefined,
+				fromStep,
+			);
+			expect(other).to.be.an.instanceOf(BaseImageError);
+			expect(other).to.not.be.an.instanceOf(BaseImageNotFoundError);
+			expect(other).to.not.be.an.instanceOf(BaseImageAuthError);
+		});
+
+		it('keeps other errors as DaemonBuildErrors', () => {
+			const error = classifyDaemonError(
+				'COPY failed: file not found in build context',
+				undefined,
+				{ step: 3, instruction: 'COPY', command: 'COPY missing /' },
+			);
+			expect(error.constructor).to.equal(DaemonBuildError);
+			expect(_.pick(error, 'step', 'instruction')).to.deep.equal({
+				step: 3,
+				instruction: 'COPY',
+			});
+		});
+
+		it('reports the step that failed and the errors of the stream', async () => {
+			const result = await parse(
+				daemonStream(
+					JSON.stringify({ stream: 'Step 1/2 : FROM busybox\n' }) +
+						JSON.stringify({ stream: 'Step 2/2 : RUN make\n' }) +
+						JSON.stringify({
+							error:
+								"The command '/bin/sh -c make' returned a non-zero code: 2",
+							errorDetail: { code: 2 },
+						}),
+				),
+			);
+			expect(result.error).to.be.an.instanceOf(RunStepError);
+			expect(_.pick(result.error, 'step', 'command')).to.deep.equal({
+				step: 2,
+				command: 'RUN make',
+			});
+
+			const stream = new PassThrough();
+			const parsed = parse(stream);
+			stream.write(JSON.stringify({ stream: 'Step 1/1 : FROM busybox\n' }));
+			stream.emit(
+				'error',
+				Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }),
+			);
+			const { error } = await parsed;
+			expect(error).to.be.an.instanceOf(DaemonRequestError);
+			expect((error as DaemonRequestError).errno).to.equal('ECONNRESET');
+			expect(error!.message).to.equal(
+				'Request to the docker daemon failed: socket hang up',
+			);
+		});
+	});
+});
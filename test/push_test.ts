@@ -0,0 +1,175 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as _ from 'lodash';
+import { PassThrough } from 'stream';
+
+import { ImageReferenceError, PushError } from '../src/errors';
+import { BuildEvent, DaemonMessage } from '../src/events';
+import { parsePushReference, pushImage } from '../src/push';
+
+const imageId = `sha256:${'a'.repeat(64)}`;
+const digest = `sha256:${'b'.repeat(64)}`;
+
+/**
+ * A docker daemon that outputs the given messages when pushing images
+ */
+class MockDocker {
+	public tagged: Array<{ image: string; options: any }> = [];
+	public pushed: Array<{ image: string; options: any }> = [];
+
+	public constructor(public output: DaemonMessage[]) {}
+
+	public getImage(image: string) {
+		return {
+			tag: (options: any) => {
+				this.tagged.push({ image, options });
+				return Promise.resolve();
+			},
+			push: (options: any) => {
+				this.pushed.push({ image, options });
+				const stream = new PassThrough();
+				stream.end(this.output.map(data => JSON.stringify(data)).join(''));
+				return Promise.resolve(stream);
+			},
+		};
+	}
+}
+
+const pushOutput: DaemonMessage[] = [
+	{ status: 'The push refers to repository [myregistry:5000/org/img]' },
+	{ status: 'Preparing', id: 'ad0eac849f8f' },
+	{
+		status: 'Pushing',
+		progressDetail: { current: 512, total: 1024 },
+		id: 'ad0eac849f8f',
+	},
+	{ status: 'Pushed', id: 'ad0eac849f8f' },
+	{ status: `1.0: digest: ${digest} size: 528` },
+	{ aux: { Tag: '1.0', Digest: digest, Size: 528 } },
+];
+
+describe('Image push', () => {
+	it('parses the references to push images as', () => {
+		expect(parsePushReference('img').reference).to.equal(
+			'docker.io/library/img:latest',
+		);
+		expect(() => parsePushReference(`img@${digest}`)).to.throw(
+			ImageReferenceError,
+			'cannot push to a digest',
+		);
+		expect(() => parsePushReference('Img')).to.throw(ImageReferenceError);
+	});
+
+	it('tags and pushes images with the credentials of their registry', async () => {
+		const docker = new MockDocker(pushOutput);
+		const events: BuildEvent[] = [];
+		const auth = { username: 'user', password: 'pass' };
+		const pushed = await pushImage(
+			docker as any,
+			imageId,
+			'myregistry:5000/org/img:1.0',
+			auth,
+			event => events.push(event),
+		);
+		expect(pushed).to.deep.equal({
+			reference: 'myregistry:5000/org/img:1.0',
+			digest,
+			size: 528,
+		});
+		expect(docker.tagged).to.deep.equal([
+			{
+				image: imageId,
+				options: { repo: 'myregistry:5000/org/img', tag: '1.0' },
+			},
+		]);
+		expect(docker.pushed).to.deep.equal([
+			{
+				image: 'myregistry:5000/org/img',
+				options: { tag: '1.0', authconfig: auth },
+			},
+		]);
+		expect(_.map(events, 'type')).to.deep.equal([
+			'push-progress',
+			'push-progress',
+			'push-progress',
+			'push-progress',
+			'push-progress',
+			'image-pushed',
+		]);
+		expect(events[2]).to.deep.equal({
+			type: 'push-progress',
+			reference: 'myregistry:5000/org/img:1.0',
+			status: 'Pushing',
+			id: 'ad0eac849f8f',
+			current: 512,
+			total: 1024,
+		});
+	});
+
+	it('pushes docker.io images with the latest tag by default', async () => {
+		const docker = new MockDocker(pushOutput);
+		const pushed = await pushImage(
+			docker as any,
+			imageId,
+			'org/img',
+			undefined,
+			_.noop,
+		);
+		expect(pushed.reference).to.equal('docker.io/org/img:latest');
+		expect(docker.pushed).to.deep.equal([
+			{ image: 'docker.io/org/img', options: { tag: 'latest' } },
+		]);
+	});
+
+	it('fails with a PushError', async () => {
+		const denied = new MockDocker([
+			{ status: 'Preparing', id: 'ad0eac849f8f' },
+			{
+				error: 'denied: requested access to the resource is denied',
+				errorDetail: {
+					message: 'denied: requested access to the resource is denied',
+				},
+			},
+		]);
+		const error = await pushImage(
+			denied as any,
+			imageId,
+			'org/img:1',
+			undefined,
+			_.noop,
+		).catch(e => e);
+		expect(error).to.be.an.instanceof(PushError);
+		expect(error.message).to.equal(
+			'Failed to push docker.io/org/img:1: denied: requested access to the resource is denied',
+		);
+		expect(error.imageId).to.equal(imageId);
+
+		const noDigest = new MockDocker(pushOutput.slice(0, 4));
+		const noDigestError = await pushImage(
+			noDigest as any,
+			imageId,
+			'org/img:1',
+			undefined,
+			_.noop,
+		).catch(e => e);
+		expect(noDigestError).to.be.an.instanceof(PushError);
+		expect(noDigestError.reason).to.equal(
+			'the daemon did not report the digest',
+		);
+	});
+});
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as JSONStream from 'JSONStream';
+import * as _ from 'lodash';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+
+import { DaemonMessage } from '../src/events';
+import {
+	createRecorder,
+	parseRecording,
+	readRecording,
+	RecordedMessage,
+	replayStream,
+} from '../src/recording';
+import { removeDirectory } from '../src/utils';
+import { makeTmpDir } from './test-files/remote_fixtures';
+import { sampleDaemonOutput } from './test-files/sample_daemon_output';
+
+const readMessages = (stream: NodeJS.ReadableStream) =>
+	new Promise<DaemonMessage[]>((resolve, reject) => {
+		const messages: DaemonMessage[] = [];
+		stream
+			.pipe(JSONStream.parse())
+			.on('data', (data: DaemonMessage) => messages.push(data))
+			.on('error', reject)
+			.on('end', () => resolve(messages));
+	});
+
+describe('Build recordings', () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = makeTmpDir();
+	});
+
+	afterEach(() => removeDirectory(tmpDir));
+
+	it('records messages to streams and files', async () => {
+		const sink = new PassThrough();
+		let output = '';
+		sink.on('data', (data: Buffer) => (output += data));
+		const streamRecorder = createRecorder(sink, _.noop);
+		const recordingPath = path.join(tmpDir, 'build.log');
+		const fileRecorder = createRecorder(recordingPath, _.noop);
+
+		const start = Date.now();
+		for (const message of sampleDaemonOutput) {
+			streamRecorder.record(message);
+			fileRecorder.record(message);
+		}
+		await Promise.all([streamRecorder.end(), fileRecorder.end()]);
+
+		const recording = await readRecording(recordingPath);
+		expect(_.map(recording, 'message')).to.deep.equal(sampleDaemonOutput);
+		for (const { time } of recording) {
+			expect(time).to.be.within(start, Date.now());
+		}
+		expect(_.map(parseRecording(output), 'message')).to.deep.equal(
+			sampleDaemonOutput,
+		);
+		// Streams are left open
+		sink.write('more');
+		expect(output).to.match(/more$/);
+	});
+
+	it('reports the errors of recording files', async () => {
+		const errors: Error[] = [];
+		const recorder = createRecorder(
+			path.join(tmpDir, 'missing', 'build.log'),
+			error => errors.push(error),
+		);
+		recorder.record({ stream: 'Step 1/1 : FROM busybox\n' });
+		await recorder.end();
+		expect(errors).to.have.lengthOf(1);
+		expect(errors[0].message).to.match(/ENOENT/);
+	});
+
+	it('rejects invalid recordings', () => {
+		expect(() =>
+			parseRecording('{"time":1,"message":{"stream":"a"}}\n\n{"time":'),
+		).to.throw('Invalid recording line 3:');
+		expect(() => parseRecording('{"stream":"a"}')).to.throw(
+			'Invalid recording line 1: not a recorded message',
+		);
+		expect(() => parseRecording('{"time":1,"text":{}}')).to.throw(
+			'Invalid recording line 1: not a recorded message',
+		);
+	});
+
+	it('records and replays malformed output as it was received', async () => {
+		const sink = new PassThrough();
+		let output = '';
+		sink.on('data', (data: Buffer) => (output += data));
+		const recorder = createRecorder(sink, _.noop);
+		recorder.record({ stream: 'a' });
+		recorder.recordText('<html>Bad Gateway</html>\n');
+		await recorder.end();
+
+		const recording = parseRecording(output);
+		expect(recording[1].text).to.equal('<html>Bad Gateway</html>\n');
+		let replayed = '';
+		await new Promise((resolve, reject) =>
+			replayStream(recording)
+				.on('data', (data: Buffer) => (replayed += data))
+				.on('error', reject)
+				.on('end', resolve),
+		);
+		expect(replayed).to.equal('{"stream":"a"}<html>Bad Gateway</html>\n');
+	});
+
+	it('replays recordings', async () => {
+		const recording: RecordedMessage[] = sampleDaemonOutput.map(
+			(message, index) => ({ time: 1000 + index, message }),
+		);
+		expect(await readMessages(replayStream(recording))).to.deep.equal(
+			sampleDaemonOutput,
+		);
+
+		const start = Date.now();
+		const messages = await readMessages(
+			replayStream(
+				[
+					{ time: 1000, message: { stream: 'a' } },
+					{ time: 1100, message: { stream: 'b' } },
+				],
+				true,
+			),
+		);
+		expect(messages).to.deep.equal([{ stream: 'a' }, { stream: 'b' }]);
+		expect(Date.now() - start).to.be.at.least(90);
+	});
+});
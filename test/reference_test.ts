@@ -0,0 +1,89 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+
+import { ImageReferenceError } from '../src/errors';
+import { parseImageReference } from '../src/reference';
+
+const digest = `sha256:${'a'.repeat(64)}`;
+
+describe('Image references', () => {
+	it('normalises references', () => {
+		const cases: Array<[string, string]> = [
+			['alpine', 'docker.io/library/alpine:latest'],
+			['alpine:3.10', 'docker.io/library/alpine:3.10'],
+			['balena/open-balena-api', 'docker.io/balena/open-balena-api:latest'],
+			['docker.io/library/alpine', 'docker.io/library/alpine:latest'],
+			['index.docker.io/org/img:1', 'docker.io/org/img:1'],
+			['localhost/img', 'localhost/img:latest'],
+			['localhost:5000/org/img:1.0', 'localhost:5000/org/img:1.0'],
+			['myregistry:5000/org/img:1.0', 'myregistry:5000/org/img:1.0'],
+			['quay.io/org/team/img', 'quay.io/org/team/img:latest'],
+			[`alpine@${digest}`, `docker.io/library/alpine@${digest}`],
+			[`alpine:3.10@${digest}`, `docker.io/library/alpine:3.10@${digest}`],
+			['a__b.c--d/e_f', 'docker.io/a__b.c--d/e_f:latest'],
+		];
+		for (const [ref, normalised] of cases) {
+			expect(parseImageReference(ref).reference).to.equal(normalised);
+		}
+	});
+
+	it('splits references into their parts', () => {
+		expect(
+			parseImageReference(`myregistry:5000/org/team/img:1.0@${digest}`),
+		).to.deep.equal({
+			registry: 'myregistry:5000',
+			namespace: 'org/team',
+			repository: 'org/team/img',
+			tag: '1.0',
+			digest,
+			reference: `myregistry:5000/org/team/img:1.0@${digest}`,
+		});
+		expect(parseImageReference('img')).to.deep.equal({
+			registry: 'docker.io',
+			namespace: 'library',
+			repository: 'library/img',
+			reference: 'docker.io/library/img:latest',
+		});
+		expect(parseImageReference('example.com/img')).to.deep.equal({
+			registry: 'example.com',
+			repository: 'img',
+			reference: 'example.com/img:latest',
+		});
+	});
+
+	it('rejects invalid references', () => {
+		const cases: Array<[string, string]> = [
+			['Alpine', 'repository name must be lowercase'],
+			['alpine:', 'invalid reference format'],
+			['alpine@sha256:abc', 'invalid reference format'],
+			['-alpine', 'invalid reference format'],
+			['a/b//c', 'invalid reference format'],
+			[`${'a'.repeat(256)}`, 'must not be more than 255 characters'],
+		];
+		for (const [ref, reason] of cases) {
+			let error: ImageReferenceError | undefined;
+			try {
+				parseImageReference(ref);
+			} catch (e) {
+				error = e;
+			}
+			expect(error).to.be.an.instanceOf(ImageReferenceError);
+			expect(error!.reason).to.contain(reason);
+		}
+	});
+});
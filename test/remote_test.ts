@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import * as tar from 'tar-stream';
+import * as zlib from 'zlib';
+
+import * as Remote from '../src/remote';
+import { removeDirectory } from '../src/utils';
+import {
+	createGitRepository,
+	makeTmpDir,
+	serveFiles,
+} from './test-files/remote_fixtures';
+
+/**
+ * Create a tar archive with a single Dockerfile
+ */
+const makeArchive = (): Promise<Buffer> => {
+	return new Promise((resolve, reject) => {
+		const pack = tar.pack();
+		const chunks: Buffer[] = [];
+		pack.on('data', (chunk: Buffer) => chunks.push(chunk));
+		pack.on('end', () => resolve(Buffer.concat(chunks)));
+		pack.on('error', reject);
+		pack.entry({ name: 'Dockerfile' }, 'FROM alpine\n');
+		pack.finalize();
+	});
+};
+
+const readAll = (stream: NodeJS.ReadableStream): Promise<Buffer> => {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+		stream.on('end', () => resolve(Buffer.concat(chunks)));
+		stream.on('error', reject);
+	});
+};
+
+describe('Remote build contexts', () => {
+	describe('archives', () => {
+		let archive: Buffer;
+		let server: http.Server;
+		let baseUrl: string;
+
+		before(async () => {
+			archive = await makeArchive();
+			({ server, baseUrl } = await serveFiles({
+				'/context.tar': archive,
+				'/context.tar.gz': zlib.gzipSync(archive),
+				'/short.gz': zlib.gzipSync(Buffer.from('')),
+			}));
+		});
+
+		after(() => {
+			server.close();
+		});
+
+		it('detects the format of archives', () => {
+			expect(Remote.detectArchiveFormat(archive)).to.equal('tar');
+			expect(Remote.detectArchiveFormat(zlib.gzipSync(archive))).to.equal(
+				'gzip',
+			);
+			expect(Remote.detectArchiveFormat(Buffer.from('BZh91AY&SY'))).to.equal(
+				'bzip2',
+			);
+			expect(
+				Remote.detectArchiveFormat(
+					Buffer.from([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00, 0x00]),
+				),
+			).to.equal('xz');
+			expect(Remote.detectArchiveFormat(Buffer.from('<html></html>'))).to.be
+				.undefined;
+		});
+
+		it('downloads archives without decompressing them', async () => {
+			const gzipped = await Remote.fetchArchive(`${baseUrl}/context.tar.gz`);
+			expect(await readAll(gzipped)).to.deep.equal(zlib.gzipSync(archive));
+			const short = await Remote.fetchArchive(`${baseUrl}/short.gz`);
+			expect(await readAll(short)).to.deep.equal(
+				zlib.gzipSync(Buffer.from('')),
+			);
+		});
+
+		it('follows redirects', async () => {
+			const stream = await Remote.fetchArchive(
+				`${baseUrl}/redirect/context.tar`,
+			);
+			expect(await readAll(stream)).to.deep.equal(archive);
+		});
+
+		it('fails for errors and for responses that are not archives', async () => {
+			let error: Error | undefined;
+			await Remote.fetchArchive(`${baseUrl}/missing.tar`).catch(
+				(e: Error) => (error = e),
+			);
+			expect(error)
+				.to.have.property('message')
+				.that.contains('HTTP 404');
+			await Remote.fetchArchive('ftp://example.com/context.tar').catch(
+				(e: Error) => (error = e),
+			);
+			expect(error)
+				.to.have.property('message')
+				.that.contains('Unsupported URL');
+		});
+	});
+
+	describe('git repositories', function() {
+		this.timeout(10000);
+
+		let tmpDir: string;
+		let repo: string;
+
+		before(() => {
+			tmpDir = makeTmpDir();
+			repo = createGitRepository(tmpDir);
+		});
+
+		after(() => removeDirectory(tmpDir));
+
+		const dockerfileAt = async (ref?: string) => {
+			const clone = path.join(tmpDir, `clone-${ref}`);
+			await Remote.cloneRepository(repo, ref, clone);
+			return fs.readFileSync(path.join(clone, 'app', 'Dockerfile'), 'utf8');
+		};
+
+		it('clones the default branch', async () => {
+			expect(await dockerfileAt()).to.equal('FROM alpine:2\n');
+		});
+
+		it('checks out tags and branches', async () => {
+			expect(await dockerfileAt('v1')).to.equal('FROM alpine:1\n');
+			expect(await dockerfileAt('master')).to.equal('FROM alpine:2\n');
+		});
+
+		it('fails for unknown refs', async () => {
+			let error: Error | undefined;
+			await dockerfileAt('missing').catch((e: Error) => (error = e));
+			expect(error)
+				.to.have.property('message')
+				.that.contains('git checkout failed');
+			await dockerfileAt('--upload-pack=touch').catch(
+				(e: Error) => (error = e),
+			);
+			expect(error)
+				.to.have.property('message')
+				.that.contains('Invalid git ref');
+		});
+	});
+});
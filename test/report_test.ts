@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import * as Bluebird from 'bluebird';
+import { expect } from 'chai';
+import * as _ from 'lodash';
+
+import { DaemonMessage, parseDaemonMessage } from '../src/events';
+import { BuildReport, formatReport, trackSteps } from '../src/report';
+
+describe('Build report', () => {
+	const output: DaemonMessage[] = [
+		{ stream: 'Step 1/3 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/3 : RUN echo hello\n' },
+		{ stream: ' ---> Using cache\n' },
+		{ stream: ' ---> bbbbbbbbbbbb\n' },
+		{ stream: 'Step 3/3 : RUN echo héllo\n' },
+		{ stream: ' ---> Running in 0123456789ab\n' },
+		{ stream: 'héllo\n' },
+		{ stream: ' ---> cccccccccccc\n' },
+	];
+
+	it('tracks the steps of a build', async () => {
+		const tracker = trackSteps();
+		const record = (messages: DaemonMessage[]) =>
+			_.flatMap(messages, parseDaemonMessage).forEach(tracker.record);
+		record(output.slice(0, 5));
+		await Bluebird.delay(20);
+		record(output.slice(5));
+		await Bluebird.delay(20);
+		tracker.end();
+		// Nothing is recorded after the end of the build
+		record([{ stream: 'Step 4/3 : RUN true\n' }]);
+
+		const report = tracker.report();
+		expect(report.steps.map(step => _.omit(step, 'durationMs'))).to.deep.equal([
+			{
+				step: 1,
+				totalSteps: 3,
+				instruction: 'FROM',
+				command: 'FROM busybox',
+				cached: false,
+				outputBytes: 0,
+				layer: 'aaaaaaaaaaaa',
+			},
+			{
+				step: 2,
+				totalSteps: 3,
+				instruction: 'RUN',
+				command: 'RUN echo hello',
+				cached: true,
+				outputBytes: 0,
+				layer: 'bbbbbbbbbbbb',
+			},
+			{
+				step: 3,
+				totalSteps: 3,
+				instruction: 'RUN',
+				command: 'RUN echo héllo',
+				cached: false,
+				outputBytes: 37,
+				layer: 'cccccccccccc',
+			},
+		]);
+		expect(report.cachedSteps).to.equal(1);
+		expect(report.steps[1].durationMs).to.be.at.least(15);
+		expect(report.steps[2].durationMs).to.be.at.least(15);
+		expect(report.durationMs).to.be.at.least(
+			_.sumBy(report.steps, 'durationMs'),
+		);
+		expect(JSON.parse(JSON.stringify(report))).to.deep.equal(report);
+	});
+
+	it('formats reports as tables', () => {
+		const report: BuildReport = {
+			durationMs: 83400,
+			cachedSteps: 1,
+			steps: [
+				{
+					step: 1,
+					totalSteps: 3,
+					instruction: 'FROM',
+					command: 'FROM busybox',
+					cached: false,
+					durationMs: 12,
+					outputBytes: 0,
+				},
+				{
+					step: 2,
+					totalSteps: 3,
+					instruction: 'RUN',
+					command: 'RUN apt-get update && apt-get install -y curl',
+					cached: false,
+					durationMs: 81250,
+					outputBytes: 1536,
+				},
+				{
+					step: 3,
+					totalSteps: 3,
+					instruction: 'COPY',
+					command: 'COPY . /app',
+					cached: true,
+					durationMs: 1000,
+					outputBytes: 5 * 1024 * 1024,
+				},
+			],
+		};
+		expect(formatReport(report, 30)).to.equal(
+			[
+				'STEP  COMMAND                         CACHED  TIME   OUTPUT',
+				'1/3   FROM busybox                    no      12ms   0 B',
+				'2/3   RUN apt-get update && apt-g...  no      81.3s  1.5 KB',
+				'3/3   COPY . /app                     yes     1.0s   5.0 MB',
+				'3 steps, 1 cached, 83.4s',
+				'',
+			].join('\n'),
+		);
+	});
+});
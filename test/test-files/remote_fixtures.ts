@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as _ from 'lodash';
+import * as os from 'os';
+import * as path from 'path';
+
+const git = (cwd: string, ...args: string[]) => {
+	execFileSync(
+		'git',
+		['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+		{ cwd, stdio: 'ignore' },
+	);
+};
+
+/**
+ * Create a bare git repository whose `app` directory is a build context.
+ * The `v1` tag has a Dockerfile FROM `alpine:1`, and the default branch
+ * (`master`) has a Dockerfile FROM `alpine:2`.
+ *
+ * @param root The directory to create the repository in
+ * @returns The path of the bare repository
+ */
+export const createGitRepository = (root: string): string => {
+	const work = path.join(root, 'work');
+	fs.mkdirSync(work);
+	git(work, 'init', '--quiet');
+	// Set the default branch regardless of the git configuration
+	git(work, 'symbolic-ref', 'HEAD', 'refs/heads/master');
+	fs.mkdirSync(path.join(work, 'app'));
+	fs.writeFileSync(path.join(work, 'app', '.dockerignore'), '*.log\n');
+	fs.writeFileSync(path.join(work, 'app', 'Dockerfile'), 'FROM alpine:1\n');
+	git(work, 'add', '.');
+	git(work, 'commit', '--quiet', '-m', 'First');
+	git(work, 'tag', 'v1');
+	fs.writeFileSync(path.join(work, 'app', 'Dockerfile'), 'FROM alpine:2\n');
+	git(work, 'commit', '--quiet', '-am', 'Second');
+	const bare = path.join(root, 'repo.git');
+	git(root, 'clone', '--quiet', '--bare', work, bare);
+	return bare;
+};
+
+/**
+ * Serve the given files over HTTP on a random port. Requests for
+ * `/redirect/<path>` are redirected to `/<path>`, and other paths are not
+ * found.
+ *
+ * @param files The contents of the files, by path (e.g. '/context.tar')
+ * @returns Promise of the server, and its base URL
+ */
+export const serveFiles = (files: {
+	[urlPath: string]: Buffer;
+}): Promise<{ server: http.Server; baseUrl: string }> => {
+	const server = http.createServer((req, res) => {
+		const urlPath = req.url || '';
+		if (_.startsWith(urlPath, '/redirect/')) {
+			res.writeHead(302, { Location: urlPath.slice('/redirect'.length) });
+			res.end();
+		} else if (files[urlPath] !== undefined) {
+			res.writeHead(200);
+			res.end(files[urlPath]);
+		} else {
+			res.writeHead(404);
+			res.end('<html>Not found</html>');
+		}
+	});
+	return new Promise((resolve, reject) => {
+		server.on('error', reject);
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as { port: number };
+			resolve({ server, baseUrl: `http://127.0.0.1:${port}` });
+		});
+	});
+};
+
+/**
+ * Create a temporary directory
+ */
+export const makeTmpDir = (): string =>
+	fs.mkdtempSync(path.join(os.tmpdir(), 'docker-build-test-'));
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2019 Balena Ltd.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *    http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Output of a BuildKit build (`version: '2'`) of the Dockerfile:
+ *
+ * FROM alpine:3.10
+ * RUN echo hello
+ */
+export const sampleBuildKitOutput = [
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CoYBCkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZRowW2ludGVybmFsXSBsb2FkIGJ1aWxkIGRlZmluaXRpb24gZnJvbSBEb2NrZXJmaWxlKgkIwNKm7QUQ6Ac=',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CpMBCkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZRowW2ludGVybmFsXSBsb2FkIGJ1aWxkIGRlZmluaXRpb24gZnJvbSBEb2NrZXJmaWxlKgkIwNKm7QUQ6AcyCwjA0qbtBRCA4esXEo4BChx0cmFuc2ZlcnJpbmcgZG9ja2VyZmlsZTogMzdCEkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZSAlMgsIwNKm7QUQgLSJEzoJCMDSpu0FENAPQgsIwNKm7QUQgLSJEw==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CoIBCkdzaGEyNTY6ZmIwNGRjYjY5NzBlNGMzZDE4NzNkZTUxZmQ1YTUwZDdiYjQ2YjMzODMxMTM2MDI2NjVjMzUwZWM0MGI1Zjk5MBodW2ludGVybmFsXSBsb2FkIC5kb2NrZXJpZ25vcmUqCwjA0qbtBRCAjs4cMgsIwNKm7QUQgJX1Kg==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CpIBCkdzaGEyNTY6ZTBkMjc0N2I5YWI3YWJiNmViNjVlMDM3M2ZhMWI0MjhhMjhiZDZkOGEyMzgwMTA2ZGNjMDgwZjU4MDA1ZWUxNBo6W2ludGVybmFsXSBsb2FkIG1ldGFkYXRhIGZvciBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMCoLCMDSpu0FEIDC1y8=',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'Cp8BCkdzaGEyNTY6ZTBkMjc0N2I5YWI3YWJiNmViNjVlMDM3M2ZhMWI0MjhhMjhiZDZkOGEyMzgwMTA2ZGNjMDgwZjU4MDA1ZWUxNBo6W2ludGVybmFsXSBsb2FkIG1ldGFkYXRhIGZvciBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMCoLCMDSpu0FEIDC1y8yCwjB0qbtBRCAhK9f',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CskBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8B',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CskBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8BErcBCkdzaGEyNTY6ODlkOWMzMGMxZDQ4YmFjNjI3ZTVjNmNiMGQxZWQxZWVjMjhlN2RiZGZiY2MwNDcxMmU0Yzc5YzBmODNmYWYxNxJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYggIBAKL6OqgEyDAjB0qbtBRCAiN6+AToMCMHSpu0FEIDz6JMB',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CtYBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8BMgsIwtKm7QUQgMLXLxK6AQpHc2hhMjU2Ojg5ZDljMzBjMWQ0OGJhYzYyN2U1YzZjYjBkMWVkMWVlYzI4ZTdkYmRmYmNjMDQ3MTJlNGM3OWMwZjgzZmFmMTcSR3NoYTI1Njo4ZTM4YTFlYTVjNjgxYzhlOWEwOGYxYWY0NjVmMWYwN2QzM2Q5MzFkZThmNzFhZjQ1ZWNiZTk1Nzc1MWM5YTg2IL6OqgEovo6qATIGCMLSpu0FOgwIwdKm7QUQgPPokwFCBgjC0qbtBQ==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CrUBCkdzaGEyNTY6ZWU4NjE2NTAyZGQwODFmM2YyNTBjZGVmMWI1ZjFjNDBhN2JlNmI1ZWVkZDU5MzZmMjZkY2NiMmM1ZTMxMjEzMRJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYaFFsyLzJdIFJVTiBlY2hvIGhlbGxvKgsIwtKm7QUQgISvXw==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'GmEKR3NoYTI1NjplZTg2MTY1MDJkZDA4MWYzZjI1MGNkZWYxYjVmMWM0MGE3YmU2YjVlZWRkNTkzNmYyNmRjY2IyYzVlMzEyMTMxEgwIwtKm7QUQgMq17gEYASIGaGVsbG8K',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CsMBCkdzaGEyNTY6ZWU4NjE2NTAyZGQwODFmM2YyNTBjZGVmMWI1ZjFjNDBhN2JlNmI1ZWVkZDU5MzZmMjZkY2NiMmM1ZTMxMjEzMRJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYaFFsyLzJdIFJVTiBlY2hvIGhlbGxvKgsIwtKm7QUQgISvXzIMCMLSpu0FEIDSk60D',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'Cq4BCkdzaGEyNTY6M2U4Mjg2MDQ0Mzg4ODg2ZWUwODc1YmIyODBmNDBmYzY1NWY1NWMyMDE2Nzk0ZDZlZWU4YTYwMTJmOTU1NWYyORJHc2hhMjU2OmVlODYxNjUwMmRkMDgxZjNmMjUwY2RlZjFiNWYxYzQwYTdiZTZiNWVlZGQ1OTM2ZjI2ZGNjYjJjNWUzMTIxMzEaEmV4cG9ydGluZyB0byBpbWFnZSoGCMPSpu0FEm0KEGV4cG9ydGluZyBsYXllcnMSR3NoYTI1NjozZTgyODYwNDQzODg4ODZlZTA4NzViYjI4MGY0MGZjNjU1ZjU1YzIwMTY3OTRkNmVlZThhNjAxMmY5NTU1ZjI5IAAyBgjD0qbtBToGCMPSpu0F',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CrwBCkdzaGEyNTY6M2U4Mjg2MDQ0Mzg4ODg2ZWUwODc1YmIyODBmNDBmYzY1NWY1NWMyMDE2Nzk0ZDZlZWU4YTYwMTJmOTU1NWYyORJHc2hhMjU2OmVlODYxNjUwMmRkMDgxZjNmMjUwY2RlZjFiNWYxYzQwYTdiZTZiNWVlZGQ1OTM2ZjI2ZGNjYjJjNWUzMTIxMzEaEmV4cG9ydGluZyB0byBpbWFnZSoGCMPSpu0FMgwIw9Km7QUQgMaGjwESfwoQZXhwb3J0aW5nIGxheWVycxJHc2hhMjU2OjNlODI4NjA0NDM4ODg4NmVlMDg3NWJiMjgwZjQwZmM2NTVmNTVjMjAxNjc5NGQ2ZWVlOGE2MDEyZjk1NTVmMjkgADILCMPSpu0FEIDC1y86BgjD0qbtBUILCMPSpu0FEIDC1y8SyQEKVXdyaXRpbmcgaW1hZ2Ugc2hhMjU2OjdiMGJmMGM1ZDJiN2ZjOGEyZmQ5ZmM3YjdiY2I5Y2NmYTFlMmU1YjdiZTNhNWYzYjRhN2M5YjBmMWEyZDNlNGYSR3NoYTI1NjozZTgyODYwNDQzODg4ODZlZTA4NzViYjI4MGY0MGZjNjU1ZjU1YzIwMTY3OTRkNmVlZThhNjAxMmY5NTU1ZjI5IAAyCwjD0qbtBRCAhK9fOgsIw9Km7QUQgMLXL0ILCMPSpu0FEICEr18=',
+	},
+	{
+		aux: {
+			ID:
+				'sha256:7b0bf0c5d2b7fc8a2fd9fc7b7bcb9ccfa1e2e5b7be3a5f3b4a7c9b0f1a2d3e4f',
+		},
+		id: 'moby.image.id',
+	},
+];
+
+/**
+ * Output of a failing BuildKit build of the Dockerfile:
+ *
+ * FROM alpine:3.10
+ * RUN echo bye && exit 1
+ */
+export const sampleBuildKitFailureOutput = [
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CoYBCkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZRowW2ludGVybmFsXSBsb2FkIGJ1aWxkIGRlZmluaXRpb24gZnJvbSBEb2NrZXJmaWxlKgkIwNKm7QUQ6Ac=',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CpMBCkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZRowW2ludGVybmFsXSBsb2FkIGJ1aWxkIGRlZmluaXRpb24gZnJvbSBEb2NrZXJmaWxlKgkIwNKm7QUQ6AcyCwjA0qbtBRCA4esXEo4BChx0cmFuc2ZlcnJpbmcgZG9ja2VyZmlsZTogMzdCEkdzaGEyNTY6M2JmYzI2OTU5NGVmNjQ5MjI4ZTlhNzRiYWIwMGYwNDJlZmM5MWQ1YWNjNmZiZWUzMWEzODJlODBkNDIzODhmZSAlMgsIwNKm7QUQgLSJEzoJCMDSpu0FENAPQgsIwNKm7QUQgLSJEw==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CoIBCkdzaGEyNTY6ZmIwNGRjYjY5NzBlNGMzZDE4NzNkZTUxZmQ1YTUwZDdiYjQ2YjMzODMxMTM2MDI2NjVjMzUwZWM0MGI1Zjk5MBodW2ludGVybmFsXSBsb2FkIC5kb2NrZXJpZ25vcmUqCwjA0qbtBRCAjs4cMgsIwNKm7QUQgJX1Kg==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CpIBCkdzaGEyNTY6ZTBkMjc0N2I5YWI3YWJiNmViNjVlMDM3M2ZhMWI0MjhhMjhiZDZkOGEyMzgwMTA2ZGNjMDgwZjU4MDA1ZWUxNBo6W2ludGVybmFsXSBsb2FkIG1ldGFkYXRhIGZvciBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMCoLCMDSpu0FEIDC1y8=',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'Cp8BCkdzaGEyNTY6ZTBkMjc0N2I5YWI3YWJiNmViNjVlMDM3M2ZhMWI0MjhhMjhiZDZkOGEyMzgwMTA2ZGNjMDgwZjU4MDA1ZWUxNBo6W2ludGVybmFsXSBsb2FkIG1ldGFkYXRhIGZvciBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMCoLCMDSpu0FEIDC1y8yCwjB0qbtBRCAhK9f',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CskBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8B',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CskBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8BErcBCkdzaGEyNTY6ODlkOWMzMGMxZDQ4YmFjNjI3ZTVjNmNiMGQxZWQxZWVjMjhlN2RiZGZiY2MwNDcxMmU0Yzc5YzBmODNmYWYxNxJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYggIBAKL6OqgEyDAjB0qbtBRCAiN6+AToMCMHSpu0FEIDz6JMB',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CtYBCkdzaGEyNTY6OGUzOGExZWE1YzY4MWM4ZTlhMDhmMWFmNDY1ZjFmMDdkMzNkOTMxZGU4ZjcxYWY0NWVjYmU5NTc3NTFjOWE4NhpwWzEvMl0gRlJPTSBkb2NrZXIuaW8vbGlicmFyeS9hbHBpbmU6My4xMEBzaGEyNTY6YzE5MTczYzVhZGE2MTBhNTk4OTE1MTExMTE2M2QyOGE2NzM2ODM2Mjc2MjUzNGQ4YTgxMjFjZTk1Y2YyYmQ1YSoMCMHSpu0FEIDGho8BMgsIwtKm7QUQgMLXLxK6AQpHc2hhMjU2Ojg5ZDljMzBjMWQ0OGJhYzYyN2U1YzZjYjBkMWVkMWVlYzI4ZTdkYmRmYmNjMDQ3MTJlNGM3OWMwZjgzZmFmMTcSR3NoYTI1Njo4ZTM4YTFlYTVjNjgxYzhlOWEwOGYxYWY0NjVmMWYwN2QzM2Q5MzFkZThmNzFhZjQ1ZWNiZTk1Nzc1MWM5YTg2IL6OqgEovo6qATIGCMLSpu0FOgwIwdKm7QUQgPPokwFCBgjC0qbtBQ==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'Cr0BCkdzaGEyNTY6NjlkYTFhN2JhNDlkMTIwMGI3OGNjNjc3NjJkYTFmZDY5ODljNTI0NDRkZGI3ZGY3YzFmOWFlOWE0ZGE4YmRhMRJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYaHFsyLzJdIFJVTiBlY2hvIGJ5ZSAmJiBleGl0IDEqCwjC0qbtBRCAhK9f',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'Gl8KR3NoYTI1Njo2OWRhMWE3YmE0OWQxMjAwYjc4Y2M2Nzc2MmRhMWZkNjk4OWM1MjQ0NGRkYjdkZjdjMWY5YWU5YTRkYThiZGExEgwIwtKm7QUQgMq17gEYASIEYnllCiJkCkdzaGEyNTY6NjlkYTFhN2JhNDlkMTIwMGI3OGNjNjc3NjJkYTFmZDY5ODljNTI0NDRkZGI3ZGY3YzFmOWFlOWE0ZGE4YmRhMRABGhdFbXB0eSBjb250aW51YXRpb24gbGluZQ==',
+	},
+	{
+		id: 'moby.buildkit.trace',
+		aux:
+			'CoYCCkdzaGEyNTY6NjlkYTFhN2JhNDlkMTIwMGI3OGNjNjc3NjJkYTFmZDY5ODljNTI0NDRkZGI3ZGY3YzFmOWFlOWE0ZGE4YmRhMRJHc2hhMjU2OjhlMzhhMWVhNWM2ODFjOGU5YTA4ZjFhZjQ2NWYxZjA3ZDMzZDkzMWRlOGY3MWFmNDVlY2JlOTU3NzUxYzlhODYaHFsyLzJdIFJVTiBlY2hvIGJ5ZSAmJiBleGl0IDEqCwjC0qbtBRCAhK9fMgwIwtKm7QUQgNKTrQM6OWV4ZWN1dG9yIGZhaWxlZCBydW5uaW5nIFsvYmluL3NoIC1jIGV4aXQgMV06IGV4aXQgY29kZTogMQ==',
+	},
+	{
+		errorDetail: {
+			message: 'executor failed running [/bin/sh -c exit 1]: exit code: 1',
+		},
+		error: 'executor failed running [/bin/sh -c exit 1]: exit code: 1',
+	},
+];
@@ -15,13 +15,64 @@
  * limitations under the License.
  */
 import { assert } from 'chai';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
 import * as _ from 'lodash';
+import * as os from 'os';
+import * as path from 'path';
 import rewire = require('rewire');
-import { Readable, Stream, Writable } from 'stream';
+import { PassThrough, Readable, Stream, Writable } from 'stream';
+import * as zlib from 'zlib';
 
+import { decodeTrace } from '../src/buildkit';
+import {
+	BuildCancelledError,
+	BuildError,
+	BuildOptionsError,
+	DaemonBuildError,
+	DaemonOutputError,
+	DaemonRequestError,
+	DockerfileError,
+	HookError,
+	ImageReferenceError,
+	PushError,
+	RegistryAuthError,
+	SecretError,
+} from '../src/errors';
+import {
+	BuildEvent,
+	DaemonMessage,
+	parseDaemonMessage,
+	StepStartEvent,
+} from '../src/events';
+import { BuildManyResult, ImageBuildOutcome } from '../src/multibuild';
+import { AbortSignalLike, BuildStreamOptions } from '../src/options';
+import {
+	BuildEndInfo,
+	BuildHooks,
+	FromTagInfo,
+	PreBuildContext,
+} from '../src/plugin';
+import {
+	parseRecording,
+	readRecording,
+	RecordedMessage,
+} from '../src/recording';
+import { BuildReport, StepReport } from '../src/report';
+import { BuildResult } from '../src/result';
 import * as Utils from '../src/utils';
+import { removeDirectory } from '../src/utils';
 import {
-	sampleDaemonOutputGenerator,
+	createGitRepository,
+	makeTmpDir,
+	serveFiles,
+} from './test-files/remote_fixtures';
+import {
+	sampleBuildKitFailureOutput,
+	sampleBuildKitOutput,
+} from './test-files/sample_buildkit_output';
+import {
+	sampleDaemonOutput,
 	sampleDaemonStreamGenerator,
 } from './test-files/sample_daemon_output';
 
@@ -31,6 +82,32 @@ import {
 class MockDockerode {
 	public buildImagePromise: Promise<void>;
 	public tarStreamMilliseconds: number;
+	// The JSON objects that the mock daemon outputs
+	// Strings are written as they are, e.g. to simulate malformed output
+	public daemonOutput: Array<DaemonMessage | string> = sampleDaemonOutput;
+	public taggedImages: string[] = [];
+	// The images listed by listImages(), with the IDs of their parents
+	public imageList: Array<{ Id: string; ParentId: string }> = [];
+	public removedImages: string[] = [];
+	// Builds of images tagged with these names fail, as do pushes of
+	// repositories with these names
+	public failingImages: string[] = [];
+	public imageTags: Array<{ image: string; repo: string; tag: string }> = [];
+	public pushedImages: Array<{
+		image: string;
+		tag: string;
+		authconfig?: any;
+	}> = [];
+	// The build options and build context of the last build
+	public buildOpts: { [key: string]: any };
+	public context: Buffer;
+	// The request of the last build, to which its build context is piped
+	public request: PassThrough;
+	// Whether the daemon never responds to build requests
+	public unresponsive = false;
+	public pulledImages: Array<{ image: string; authconfig?: any }> = [];
+	// The error of build requests, if set
+	public requestError?: Error;
 
 	/**
 	 * Mock of dockerode's buildImage() (of sorts - no network calls). This
@@ -40,25 +117,111 @@ class MockDockerode {
 	 * inputStream finishes (asynchronously), this.tarStreamMilliseconds is
 	 * assigned to with how long it took.
 	 * @param inputStream Mock tar stream - input to the docker daemon
+	 * @param buildOpts The build options; builds of failingImages fail
 	 * @returns A mock of the docker daemon's output stream (a JSON stream)
 	 */
-	public buildImage(inputStream: Readable): Promise<Writable> {
+	public buildImage(
+		inputStream: Readable,
+		buildOpts: { t?: string } = {},
+	): Promise<Writable> {
+		if (this.requestError !== undefined) {
+			return Promise.reject(this.requestError);
+		}
 		const outputStream = new Stream.PassThrough();
+		// As for docker-modem, the input is piped to the request
+		const request = new Stream.PassThrough();
+		inputStream.pipe(request);
+		this.request = request;
+		this.buildOpts = buildOpts;
 		this.buildImagePromise = new Promise((resolve, reject) => {
 			const startTime = Date.now();
+			const chunks: Buffer[] = [];
 			outputStream.on('error', reject);
-			inputStream
-				.on('error', reject)
+			inputStream.on('error', reject);
+			request
+				.on('data', (chunk: Buffer) => chunks.push(chunk))
 				.on('end', () => {
+					this.context = Buffer.concat(chunks);
 					this.tarStreamMilliseconds = Date.now() - startTime;
+					const daemonOutput = _.includes(this.failingImages, buildOpts.t)
+						? [{ error: `Failed to build ${buildOpts.t}` }]
+						: this.daemonOutput;
+					const output = daemonOutput.map(data =>
+						_.isString(data) ? data : JSON.stringify(data),
+					);
 					resolve(
-						eventLoopWriteIterable(outputStream, sampleDaemonOutputGenerator()),
+						eventLoopWriteIterable(outputStream, output[Symbol.iterator]()),
 					);
-				})
-				.resume();
+				});
 		});
+		if (this.unresponsive) {
+			return new Promise((_resolve, reject) => {
+				request.on('close', () => reject(new Error('socket hang up')));
+			});
+		}
 		return Promise.resolve(outputStream);
 	}
+
+	/**
+	 * Mock of dockerode's pull(); pulls of failingImages fail
+	 */
+	public pull(image: string, options: { authconfig?: any }) {
+		this.pulledImages.push({ image, ...options });
+		const output: DaemonMessage[] = _.includes(this.failingImages, image)
+			? [{ error: `manifest for ${image} not found` }]
+			: [{ status: `Downloaded newer image for ${image}` }];
+		const stream = new Stream.PassThrough();
+		stream.end(output.map(data => JSON.stringify(data)).join(''));
+		return Promise.resolve(stream);
+	}
+
+	/**
+	 * Mock of dockerode's listImages()
+	 */
+	public listImages() {
+		return Promise.resolve(this.imageList);
+	}
+
+	/**
+	 * Mock of dockerode's getImage(), for images whose full ID is the given
+	 * (truncated) ID padded with zeros
+	 */
+	public getImage(name: string) {
+		return {
+			inspect: () =>
+				Promise.resolve({
+					Id: `sha256:${_.padEnd(name, 64, '0')}`,
+					RepoTags: this.taggedImages.includes(name) ? ['some:tag'] : [],
+				}),
+			remove: () => {
+				this.removedImages.push(name);
+				return Promise.resolve();
+			},
+			tag: (options: { repo: string; tag: string }) => {
+				this.imageTags.push({ image: name, ...options });
+				return Promise.resolve();
+			},
+			push: (options: { tag: string; authconfig?: any }) => {
+				this.pushedImages.push({ image: name, ...options });
+				const output: DaemonMessage[] = _.includes(this.failingImages, name)
+					? [{ error: 'denied: requested access to the resource is denied' }]
+					: [
+							{ status: 'Pushing', id: 'ad0eac849f8f' },
+							{ status: 'Pushed', id: 'ad0eac849f8f' },
+							{
+								aux: {
+									Tag: options.tag,
+									Digest: `sha256:${_.padEnd(options.tag, 64, 'f')}`,
+									Size: 528,
+								},
+							},
+					  ];
+				const stream = new Stream.PassThrough();
+				stream.end(output.map(data => JSON.stringify(data)).join(''));
+				return Promise.resolve(stream);
+			},
+		};
+	}
 }
 
 /**
@@ -132,6 +295,595 @@ describe('createBuildStream', function() {
 	});
 });
 
+describe('Image ID', function() {
+	this.timeout(5000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const build = (daemonOutput: DaemonMessage[]): Promise<string> => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		return new Promise((resolve, reject) => {
+			const hooks: BuildHooks = {
+				buildStream: stream => {
+					stream.resume();
+					stream.end();
+				},
+				buildSuccess: resolve,
+				buildFailure: reject,
+			};
+			mockBuilder.createBuildStream({}, hooks);
+		});
+	};
+
+	const imageId = `sha256:${_.repeat('d', 64)}`;
+
+	it('should prefer the aux image ID', async () => {
+		assert.equal(
+			await build([
+				{ stream: 'Step 1/1 : FROM busybox\n' },
+				{ stream: ' ---> 0123456789ab\n' },
+				{ aux: { ID: imageId } },
+				{ stream: 'Successfully built dddddddddddd\n' },
+			]),
+			imageId,
+		);
+	});
+
+	it('should fall back to the full ID of the last layer', async () => {
+		assert.equal(
+			await build([
+				{ stream: 'Step 1/1 : FROM busybox\n' },
+				{ stream: ' ---> 0123456789ab\n' },
+			]),
+			`sha256:0123456789ab${_.repeat('0', 52)}`,
+		);
+	});
+});
+
+describe('BuildKit output', function() {
+	this.timeout(5000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const build = (daemonOutput: DaemonMessage[]) => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		let output = '';
+		return new Promise<{
+			error?: Error;
+			imageId?: string;
+			layers: string[];
+			fromTags: FromTagInfo[];
+			output: string;
+		}>(resolve => {
+			const hooks: BuildHooks = {
+				buildStream: stream => {
+					stream.on('data', (data: Buffer) => (output += data));
+					stream.end();
+				},
+				buildSuccess: (imageId, layers, fromTags) =>
+					resolve({ imageId, layers, fromTags, output }),
+				buildFailure: (error, layers, fromTags) =>
+					resolve({ error, layers, fromTags, output }),
+			};
+			mockBuilder.createBuildStream({ version: '2' }, hooks);
+		});
+	};
+
+	it('should report the image, vertexes and FROM references', async () => {
+		const result = await build(sampleBuildKitOutput);
+		assert.isUndefined(result.error);
+		assert.equal(
+			result.imageId,
+			'sha256:7b0bf0c5d2b7fc8a2fd9fc7b7bcb9ccfa1e2e5b7be3a5f3b4a7c9b0f1a2d3e4f',
+		);
+		assert.lengthOf(result.layers, 6);
+		assert.deepEqual(result.fromTags, [
+			{
+				repo: 'docker.io/library/alpine',
+				tag: '3.10',
+				registry: 'docker.io',
+				namespace: 'library',
+				digest:
+					'sha256:c19173c5ada610a5989151111163d28a67368362762534d8a8121ce95cf2bd5a',
+				reference:
+					'docker.io/library/alpine:3.10@sha256:c19173c5ada610a5989151111163d28a67368362762534d8a8121ce95cf2bd5a',
+			},
+		]);
+		assert.include(result.output, '#5 [2/2] RUN echo hello\n#5 hello\n');
+	});
+
+	it('should report failures', async () => {
+		const result = await build(sampleBuildKitFailureOutput);
+		assert.equal(
+			result.error && result.error.message,
+			'executor failed running [/bin/sh -c exit 1]: exit code: 1',
+		);
+		assert.lengthOf(result.layers, 4);
+	});
+});
+
+/**
+ * Minimal AbortSignal, as AbortController is not available in all the
+ * versions of Node.js that are supported
+ */
+class MockAbortSignal extends EventEmitter implements AbortSignalLike {
+	public aborted = false;
+
+	public abort() {
+		this.aborted = true;
+		this.emit('abort');
+	}
+
+	public addEventListener(type: 'abort', listener: () => void) {
+		this.on(type, listener);
+	}
+
+	public removeEventListener(type: 'abort', listener: () => void) {
+		this.removeListener(type, listener);
+	}
+}
+
+describe('Build cancellation', function() {
+	this.timeout(5000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const cancelAfterLayers = (
+		mockBuilder: any,
+		count: number,
+		options: Partial<BuildStreamOptions> = {},
+	) => {
+		const signal = new MockAbortSignal();
+		let layerCount = 0;
+		return new Promise<BuildCancelledError>((resolve, reject) => {
+			const hooks: BuildHooks = {
+				buildStream: stream => {
+					stream.resume();
+					stream.end();
+				},
+				// Cancel when the step after the count-th layer starts
+				buildEvent: event => {
+					if (event.type === 'layer-created') {
+						layerCount++;
+					} else if (event.type === 'step-start' && layerCount === count) {
+						signal.abort();
+					}
+				},
+				buildSuccess: () => reject(new Error('Expected cancellation')),
+				buildFailure: error => resolve(error as BuildCancelledError),
+			};
+			mockBuilder.createBuildStream({}, hooks, undefined, {
+				...options,
+				signal,
+			});
+		});
+	};
+
+	it('should fail the build with a BuildCancelledError', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error = await cancelAfterLayers(mockBuilder, 2);
+		assert.instanceOf(error, BuildCancelledError);
+		assert.lengthOf(error.layers, 2);
+		assert.deepEqual(error.removedLayers, []);
+		assert.deepEqual(mockBuilder.docker.removedImages, []);
+	});
+
+	it('should remove the untagged layers if requested', async () => {
+		const sampleLayers = _.compact(
+			sampleDaemonOutput.map(data => Utils.extractLayer(data.stream || '')),
+		);
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.taggedImages = [sampleLayers[0]];
+		const error = await cancelAfterLayers(mockBuilder, 3, {
+			removeLayersOnCancel: true,
+		});
+		assert.deepEqual(error.layers, sampleLayers.slice(0, 3));
+		assert.deepEqual(error.removedLayers, [sampleLayers[2], sampleLayers[1]]);
+		assert.deepEqual(mockBuilder.docker.removedImages, error.removedLayers);
+	});
+
+	it('should only remove the layers that the build created', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/4 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 2/4 : RUN echo cached\n' },
+			{ stream: ' ---> Using cache\n' },
+			{ stream: ' ---> bbbbbbbbbbbb\n' },
+			{ stream: 'Step 3/4 : RUN echo built\n' },
+			{ stream: ' ---> cccccccccccc\n' },
+			{ stream: 'Step 4/4 : RUN echo cancelled\n' },
+		];
+		const error = await cancelAfterLayers(mockBuilder, 3, {
+			removeLayersOnCancel: true,
+		});
+		assert.deepEqual(error.removedLayers, ['cccccccccccc']);
+		assert.deepEqual(mockBuilder.docker.removedImages, ['cccccccccccc']);
+	});
+
+	it('should keep a stricter cleanup policy when removing the layers', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/4 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 2/4 : RUN echo cached\n' },
+			{ stream: ' ---> Using cache\n' },
+			{ stream: ' ---> bbbbbbbbbbbb\n' },
+			{ stream: 'Step 3/4 : RUN echo built\n' },
+			{ stream: ' ---> cccccccccccc\n' },
+			{ stream: 'Step 4/4 : RUN echo cancelled\n' },
+		];
+		const error = await cancelAfterLayers(mockBuilder, 3, {
+			removeLayersOnCancel: true,
+			cleanup: 'all-intermediate',
+		});
+		assert.sameMembers(error.removedLayers!, ['bbbbbbbbbbbb', 'cccccccccccc']);
+		assert.sameMembers(mockBuilder.docker.removedImages, [
+			'bbbbbbbbbbbb',
+			'cccccccccccc',
+		]);
+	});
+
+	it('should abort the upload of the build context if the daemon has not responded', async () => {
+		// With files added by a preBuild hook, the upload goes through another
+		// stream
+		for (const addFile of [false, true]) {
+			const mockBuilder = MockBuilder.fromDockerOpts({});
+			mockBuilder.docker.unresponsive = true;
+			const signal = new MockAbortSignal();
+			const error = await new Promise<Error>(resolve => {
+				const stream = mockBuilder.createBuildStream(
+					{},
+					{
+						preBuild: (context: PreBuildContext) => {
+							if (addFile) {
+								context.addFile('VERSION', '1.0\n');
+							}
+						},
+						buildStream: (s: NodeJS.ReadWriteStream) => s.resume(),
+						buildFailure: resolve,
+					},
+					undefined,
+					{ signal },
+				);
+				// Cancel once part of the build context has been uploaded
+				stream.write(Buffer.alloc(512));
+				const cancelOnRequest = () =>
+					mockBuilder.docker.request !== undefined
+						? setTimeout(() => signal.abort(), 10)
+						: setTimeout(cancelOnRequest, 10);
+				cancelOnRequest();
+			});
+			assert.instanceOf(error, BuildCancelledError);
+			assert.isTrue(mockBuilder.docker.request.destroyed);
+			assert.isFalse(mockBuilder.docker.request.writableEnded);
+		}
+	});
+
+	it('should not start a build with an aborted signal', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const signal = new MockAbortSignal();
+		signal.abort();
+		const error = await new Promise<Error>((resolve, reject) => {
+			mockBuilder.createBuildStream(
+				{},
+				{
+					buildSuccess: () => reject(new Error('Expected cancellation')),
+					buildFailure: resolve,
+				},
+				undefined,
+				{ signal },
+			);
+		});
+		assert.instanceOf(error, BuildCancelledError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+});
+
+describe('buildEvent hook', function() {
+	this.timeout(5000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	it('should be called with the parsed daemon output', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const events: BuildEvent[] = [];
+		await new Promise((resolve, reject) => {
+			const hooks: BuildHooks = {
+				buildStream: stream => {
+					stream.resume();
+					mockTarStream(stream, 1).catch(reject);
+				},
+				buildEvent: event => {
+					events.push(event);
+				},
+				buildSuccess: resolve,
+				buildFailure: reject,
+			};
+			mockBuilder.createBuildStream({}, hooks);
+		});
+		assert.deepEqual(
+			_.flatMap(sampleDaemonOutput, data => parseDaemonMessage(data)),
+			events,
+		);
+	});
+});
+
+describe('Promise API', function() {
+	this.timeout(5000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const sampleLayers = _.compact(
+		sampleDaemonOutput.map(data => Utils.extractLayer(data.stream || '')),
+	);
+
+	it('should resolve with the result of a directory build', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const events: BuildEvent[] = [];
+		const result: BuildResult = await mockBuilder.build(
+			'test/test-files/directory-successful-build',
+			{ onEvent: (event: BuildEvent) => events.push(event) },
+		);
+		assert.equal(
+			result.imageId,
+			`sha256:${_.padEnd(_.last(sampleLayers), 64, '0')}`,
+		);
+		assert.deepEqual(result.layers, sampleLayers);
+		assert.deepEqual(result.fromTags, []);
+		assert.deepEqual(result.warnings, []);
+		assert.isAtLeast(result.durationMs, 0);
+		assert.equal(
+			result.log,
+			sampleDaemonOutput.map(data => data.stream || '').join(''),
+		);
+		assert.deepEqual(
+			events,
+			_.flatMap(sampleDaemonOutput, data => parseDaemonMessage(data)),
+		);
+	});
+
+	it('should build a tar stream', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const tarStream = new Stream.PassThrough();
+		const resultPromise = mockBuilder.build(tarStream);
+		await mockTarStream(tarStream, 1);
+		const result: BuildResult = await resultPromise;
+		assert.deepEqual(result.layers, sampleLayers);
+	});
+
+	it('should validate the build options before building', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error: BuildError = await mockBuilder
+			.build('test/test-files/directory-successful-build', {
+				buildOpts: { noCache: true },
+			})
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, BuildOptionsError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should check the Dockerfile before building', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error: BuildError = await mockBuilder
+			.build('test/test-files/directory-no-dockerfile')
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, DockerfileError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should reject with a BuildError', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/2 : FROM busybox\n' },
+			{ stream: ' ---> 0123456789ab\n' },
+			{ stream: 'Step 2/2 : RUN exit 1\n' },
+			{ stream: '[Warning] One or more build-args were not consumed\n' },
+			{ error: 'The command returned a non-zero code: 1' },
+		];
+		const tarStream = new Stream.PassThrough();
+		tarStream.end();
+		const error: BuildError = await mockBuilder.build(tarStream).then(
+			() => {
+				throw new Error('Expected the build to fail');
+			},
+			(e: BuildError) => e,
+		);
+		assert.instanceOf(error, BuildError);
+		assert.equal(error.message, 'The command returned a non-zero code: 1');
+		assert.equal(error.cause.message, error.message);
+		assert.deepEqual(error.layers, ['0123456789ab']);
+		assert.deepEqual(error.fromTags, [
+			{
+				repo: 'busybox',
+				tag: 'latest',
+				registry: 'docker.io',
+				namespace: 'library',
+				reference: 'docker.io/library/busybox:latest',
+			},
+		]);
+		assert.deepEqual(error.warnings, [
+			'One or more build-args were not consumed',
+		]);
+		assert.include(error.log, 'Step 2/2 : RUN exit 1\n');
+	});
+});
+
+describe('Remote build contexts', function() {
+	this.timeout(10000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	let tmpDir: string;
+	let repo: string;
+
+	before(() => {
+		tmpDir = makeTmpDir();
+		repo = createGitRepository(tmpDir);
+	});
+
+	after(() => removeDirectory(tmpDir));
+
+	const gitClones = () =>
+		fs.readdirSync(os.tmpdir()).filter(name => /^docker-build-git-/.test(name));
+
+	const buildHooks = (resolve: (layers: string[]) => void, reject: any) => {
+		const hooks: BuildHooks = {
+			buildStream: stream => {
+				stream.resume();
+			},
+			buildSuccess: (_imageId, layers) => resolve(layers),
+			buildFailure: reject,
+		};
+		return hooks;
+	};
+
+	it('should build a directory of a git repository', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const clones = gitClones();
+		const layers = await new Promise<string[]>((resolve, reject) => {
+			mockBuilder
+				.buildGit(repo, 'v1', 'app', {}, buildHooks(resolve, reject))
+				.catch(reject);
+		});
+		assert.isAbove(layers.length, 0);
+		// The clone is removed once the build has finished
+		assert.deepEqual(gitClones(), clones);
+	});
+
+	it('should not build outside of the git repository', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const clones = gitClones();
+		const error: Error = await mockBuilder
+			.buildGit(repo, undefined, '../app', {}, {})
+			.catch((e: Error) => e);
+		assert.equal(error.message, '../app is not a directory of the repository');
+		assert.deepEqual(gitClones(), clones);
+	});
+
+	it('should build a remote tar archive', async () => {
+		const { server, baseUrl } = await serveFiles({
+			'/context.tar.gz': zlib.gzipSync(Buffer.alloc(1024)),
+		});
+		try {
+			const mockBuilder = MockBuilder.fromDockerOpts({});
+			const layers = await new Promise<string[]>((resolve, reject) => {
+				mockBuilder
+					.buildRemoteTar(
+						`${baseUrl}/context.tar.gz`,
+						{},
+						buildHooks(resolve, reject),
+					)
+					.catch(reject);
+			});
+			assert.isAbove(layers.length, 0);
+		} finally {
+			server.close();
+		}
+	});
+});
+
+describe('Multi-image builds', function() {
+	this.timeout(10000);
+
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	let tmpDir: string;
+
+	before(() => {
+		tmpDir = makeTmpDir();
+		const dockerfiles: { [name: string]: string } = {
+			base: 'FROM alpine\n',
+			api: 'FROM base\n',
+			worker: 'FROM api\n',
+			frontend: 'FROM node\n',
+		};
+		_.forEach(dockerfiles, (dockerfile, name) => {
+			fs.mkdirSync(path.join(tmpDir, name));
+			fs.writeFileSync(path.join(tmpDir, name, 'Dockerfile'), dockerfile);
+		});
+	});
+
+	after(() => removeDirectory(tmpDir));
+
+	const images = () =>
+		['worker', 'api', 'frontend', 'base'].map(name => ({
+			name,
+			context: path.join(tmpDir, name),
+		}));
+
+	it('should build images after their dependencies', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const started: string[] = [];
+		const result: BuildManyResult = await mockBuilder.buildMany(images(), {
+			concurrency: 2,
+			onImageStart: (name: string) => started.push(name),
+		});
+		assert.isTrue(result.success);
+		assert.deepEqual(started, ['frontend', 'base', 'api', 'worker']);
+		assert.deepEqual(
+			result.images.map(image => [image.name, image.status]),
+			[
+				['frontend', 'success'],
+				['base', 'success'],
+				['api', 'success'],
+				['worker', 'success'],
+			],
+		);
+		assert.deepEqual(result.images[3].dependencies, ['api']);
+	});
+
+	it('should skip the images that depend on a failed image', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.failingImages = ['api'];
+		const finished: ImageBuildOutcome[] = [];
+		const result: BuildManyResult = await mockBuilder.buildMany(images(), {
+			onImageFinish: (outcome: ImageBuildOutcome) => finished.push(outcome),
+		});
+		assert.isFalse(result.success);
+		assert.deepEqual(_.mapValues(_.keyBy(result.images, 'name'), 'status'), {
+			frontend: 'success',
+			base: 'success',
+			api: 'failure',
+			worker: 'skipped',
+		});
+		const [api, worker] = result.images.slice(2);
+		assert.instanceOf(api.error, BuildError);
+		assert.equal(api.error!.message, 'Failed to build api');
+		assert.equal(
+			worker.error!.message,
+			'Image worker depends on api, which was not built',
+		);
+		assert.lengthOf(finished, 4);
+	});
+
+	it('should reject invalid concurrencies', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error = await mockBuilder
+			.buildMany(images(), { concurrency: 0 })
+			.catch((e: Error) => e);
+		assert.instanceOf(error, BuildOptionsError);
+		assert.equal(error.option, 'concurrency');
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+});
+
 /**
  * Write the data produced by the given iterator to the given stream,
  * "spreading" the writes over the node/JS event loop with setImmediate().
@@ -144,7 +896,7 @@ describe('createBuildStream', function() {
  * @returns A promise that fulfils when the iteration ends or rejects on stream errors
  */
 function eventLoopWriteIterable(
-	stream: Writable,
+	stream: NodeJS.WritableStream,
 	iter: Iterator<string | Buffer>,
 	shouldEndStream: boolean = true,
 ): Promise<void> {
@@ -176,7 +928,7 @@ function eventLoopWriteIterable(
  * @returns A promise that fulfils when there is no more data to write
  */
 async function mockTarStream(
-	writeStream: Writable,
+	writeStream: NodeJS.WritableStream,
 	sizeMegaBytes: number,
 ): Promise<void> {
 	const mockTarKiloByteBuf = Buffer.allocUnsafe(1024);
@@ -189,3 +941,1131 @@ async function mockTarStream(
 		})(),
 	);
 }
+
+describe('Registry authentication', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const auth = {
+		registries: {
+			'myregistry:5000': { username: 'user', password: 'pass' },
+			'docker.io': { username: 'hub', password: 'pass' },
+			'unused.io': { username: 'unused', password: 'pass' },
+		},
+	};
+
+	let tmpDir: string;
+
+	before(() => {
+		tmpDir = makeTmpDir();
+		fs.writeFileSync(
+			path.join(tmpDir, 'Dockerfile'),
+			'FROM myregistry:5000/base:1 AS build\nFROM build\nFROM alpine\n',
+		);
+	});
+
+	after(() => removeDirectory(tmpDir));
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	const buildRegistries = (
+		mockBuilder: any,
+		context: string | Readable,
+		buildOpts: { [key: string]: any } = {},
+		options: BuildStreamOptions = {},
+	) =>
+		mockBuilder
+			.build(context, { buildOpts, ...options })
+			.then(() => _.keys(mockBuilder.docker.buildOpts.registryconfig));
+
+	it('should send the credentials of the registries of a directory build', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		assert.deepEqual(await buildRegistries(mockBuilder, tmpDir), [
+			'myregistry:5000',
+			'https://index.docker.io/v1/',
+		]);
+		assert.deepEqual(
+			mockBuilder.docker.buildOpts.registryconfig['myregistry:5000'],
+			{ serveraddress: 'myregistry:5000', username: 'user', password: 'pass' },
+		);
+		// The credentials of cache sources are sent too
+		assert.deepEqual(
+			await buildRegistries(mockBuilder, tmpDir, {
+				cachefrom: ['unused.io/cache:latest'],
+			}),
+			['myregistry:5000', 'https://index.docker.io/v1/', 'unused.io'],
+		);
+	});
+
+	it('should pull base images with the credentials of their registries', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		await mockBuilder.resolveBaseImages(tmpDir, {}, { mode: 'pull' });
+		assert.deepEqual(mockBuilder.docker.pulledImages, [
+			{
+				image: 'myregistry:5000/base:1',
+				authconfig: {
+					username: 'user',
+					password: 'pass',
+					serveraddress: 'myregistry:5000',
+				},
+			},
+			{
+				image: 'docker.io/library/alpine:latest',
+				authconfig: {
+					username: 'hub',
+					password: 'pass',
+					serveraddress: 'https://index.docker.io/v1/',
+				},
+			},
+		]);
+	});
+
+	it('should send the credentials of the given registries of a tar stream build', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts(
+			{},
+			{
+				auth: {
+					...auth,
+					credentialHelper: (registry: string) =>
+						Promise.resolve(
+							registry === 'quay.io' ? { registrytoken: 'token' } : undefined,
+						),
+				},
+			},
+		);
+		assert.deepEqual(await buildRegistries(mockBuilder, tarStream()), [
+			'myregistry:5000',
+			'https://index.docker.io/v1/',
+			'unused.io',
+		]);
+		assert.deepEqual(
+			await buildRegistries(
+				mockBuilder,
+				tarStream(),
+				{},
+				{ registries: ['quay.io', 'other.io'] },
+			),
+			['quay.io'],
+		);
+	});
+
+	it('should not change the credentials given in the build options', async () => {
+		const registryconfig = { 'quay.io': { username: 'user' } };
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		await buildRegistries(mockBuilder, tmpDir, { registryconfig });
+		assert.strictEqual(
+			mockBuilder.docker.buildOpts.registryconfig,
+			registryconfig,
+		);
+
+		const noAuthBuilder = MockBuilder.fromDockerOpts({});
+		assert.deepEqual(await buildRegistries(noAuthBuilder, tmpDir), []);
+		assert.notProperty(noAuthBuilder.docker.buildOpts, 'registryconfig');
+	});
+
+	it('should fail the build if credentials cannot be looked up', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts(
+			{},
+			{
+				auth: {
+					credentialHelper: (registry: string) =>
+						Promise.reject(new RegistryAuthError(registry, 'helper failed')),
+				},
+			},
+		);
+		const error: BuildError = await mockBuilder
+			.build(tmpDir)
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, RegistryAuthError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+});
+
+describe('Image push', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const imageId = `sha256:${_.repeat('d', 64)}`;
+	const daemonOutput = [
+		{ stream: 'Step 1/1 : FROM busybox\n' },
+		{ stream: ' ---> 0123456789ab\n' },
+		{ aux: { ID: imageId } },
+	];
+	const auth = {
+		registries: { 'myregistry:5000': { username: 'user', password: 'pass' } },
+	};
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should tag and push the built image', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		const events: BuildEvent[] = [];
+		const result: BuildResult = await mockBuilder.build(tarStream(), {
+			push: ['myregistry:5000/org/img:1.0', 'org/img'],
+			onEvent: (event: BuildEvent) => events.push(event),
+		});
+		assert.equal(result.imageId, imageId);
+		assert.deepEqual(result.pushed, [
+			{
+				reference: 'myregistry:5000/org/img:1.0',
+				digest: `sha256:1.0${_.repeat('f', 61)}`,
+				size: 528,
+			},
+			{
+				reference: 'docker.io/org/img:latest',
+				digest: `sha256:latest${_.repeat('f', 58)}`,
+				size: 528,
+			},
+		]);
+		assert.deepEqual(mockBuilder.docker.imageTags, [
+			{ image: imageId, repo: 'myregistry:5000/org/img', tag: '1.0' },
+			{ image: imageId, repo: 'docker.io/org/img', tag: 'latest' },
+		]);
+		// Only the credentials of the registry are sent
+		assert.deepEqual(mockBuilder.docker.pushedImages, [
+			{
+				image: 'myregistry:5000/org/img',
+				tag: '1.0',
+				authconfig: {
+					serveraddress: 'myregistry:5000',
+					username: 'user',
+					password: 'pass',
+				},
+			},
+			{ image: 'docker.io/org/img', tag: 'latest' },
+		]);
+		assert.deepEqual(
+			_.map(
+				_.filter(events, e => /^(push|image)-/.test(e.type)),
+				'type',
+			),
+			[
+				'push-progress',
+				'push-progress',
+				'image-pushed',
+				'push-progress',
+				'push-progress',
+				'image-pushed',
+			],
+		);
+	});
+
+	it('should not build images with invalid references to push', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { push: [`img@sha256:${_.repeat('0', 64)}`] })
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, ImageReferenceError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should fail the build with a PushError', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		mockBuilder.docker.failingImages = ['docker.io/org/denied'];
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { push: ['org/img', 'org/denied', 'org/other'] })
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, PushError);
+		assert.equal(
+			error.message,
+			'Failed to push docker.io/org/denied:latest: denied: requested access to the resource is denied',
+		);
+		assert.equal((error.cause as PushError).imageId, imageId);
+		// The images are pushed one after the other
+		assert.deepEqual(_.map(mockBuilder.docker.pushedImages, 'image'), [
+			'docker.io/org/img',
+			'docker.io/org/denied',
+		]);
+	});
+});
+
+describe('Cleanup', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const fullId = (id: string) => `sha256:${_.padEnd(id, 64, '0')}`;
+	const daemonOutput: DaemonMessage[] = [
+		{ stream: 'Step 1/4 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/4 : RUN true\n' },
+		{ stream: ' ---> Using cache\n' },
+		{ stream: ' ---> bbbbbbbbbbbb\n' },
+		{ stream: 'Step 3/4 : RUN true\n' },
+		{ stream: ' ---> cccccccccccc\n' },
+		{ stream: 'Step 4/4 : RUN true\n' },
+		{ stream: ' ---> dddddddddddd\n' },
+	];
+	const failure = [{ error: 'The command returned a non-zero code: 1' }];
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should remove the images created by a failed build', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { cleanup: 'dangling' });
+		mockBuilder.docker.daemonOutput = daemonOutput.concat(failure);
+		const events: BuildEvent[] = [];
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), {
+				onEvent: (event: BuildEvent) => events.push(event),
+			})
+			.catch((e: BuildError) => e);
+		assert.deepEqual(error.removedLayers, ['dddddddddddd', 'cccccccccccc']);
+		assert.deepEqual(mockBuilder.docker.removedImages, error.removedLayers);
+		assert.deepEqual(_.last(events), {
+			type: 'layers-removed',
+			layers: error.removedLayers,
+		});
+	});
+
+	it('should also remove the images reused from the cache if requested', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { cleanup: 'dangling' });
+		mockBuilder.docker.daemonOutput = daemonOutput.concat(failure);
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { cleanup: 'all-intermediate' })
+			.catch((e: BuildError) => e);
+		assert.deepEqual(error.removedLayers, [
+			'dddddddddddd',
+			'cccccccccccc',
+			'bbbbbbbbbbbb',
+		]);
+	});
+
+	it('should keep the built image and the images it is based on', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		mockBuilder.docker.imageList = [
+			{ Id: fullId('cccccccccccc'), ParentId: fullId('bbbbbbbbbbbb') },
+			{ Id: fullId('dddddddddddd'), ParentId: fullId('cccccccccccc') },
+		];
+		const result: BuildResult = await mockBuilder.build(tarStream(), {
+			cleanup: 'all-intermediate',
+		});
+		assert.equal(result.imageId, fullId('dddddddddddd'));
+		assert.deepEqual(result.removedLayers, []);
+		assert.deepEqual(mockBuilder.docker.removedImages, []);
+	});
+
+	it('should not remove anything by default', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat(failure);
+		const error: BuildError = await mockBuilder
+			.build(tarStream())
+			.catch((e: BuildError) => e);
+		assert.deepEqual(error.removedLayers, []);
+		assert.deepEqual(mockBuilder.docker.removedImages, []);
+	});
+});
+
+describe('Build recording', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	const replay = (
+		mockBuilder: any,
+		recording: string | RecordedMessage[],
+		events: BuildEvent[],
+	) =>
+		new Promise<{ layers: string[]; fromTags: FromTagInfo[]; id?: string }>(
+			(resolve, reject) => {
+				mockBuilder.replayBuild(recording, {
+					buildStream: (stream: NodeJS.ReadWriteStream) => stream.resume(),
+					buildEvent: (event: BuildEvent) => events.push(event),
+					buildSuccess: (
+						id: string,
+						layers: string[],
+						fromTags: FromTagInfo[],
+					) => resolve({ layers, fromTags, id }),
+					buildFailure: (error: Error, layers: string[]) =>
+						reject(Object.assign(error, { layers })),
+				});
+			},
+		);
+
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = makeTmpDir();
+	});
+
+	afterEach(() => removeDirectory(tmpDir));
+
+	it('should record the daemon output to a file and replay it', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const recordingPath = path.join(tmpDir, 'build.log');
+		const buildEvents: BuildEvent[] = [];
+		const result: BuildResult = await mockBuilder.build(tarStream(), {
+			record: recordingPath,
+			onEvent: (event: BuildEvent) => buildEvents.push(event),
+		});
+		const recording = await readRecording(recordingPath);
+		assert.deepEqual(_.map(recording, 'message'), sampleDaemonOutput);
+
+		const replayEvents: BuildEvent[] = [];
+		const replayed = await replay(mockBuilder, recordingPath, replayEvents);
+		// The full ID of the image cannot be looked up without the daemon
+		assert.equal(replayed.id, _.last(result.layers));
+		assert.match(result.imageId, new RegExp(`^sha256:${replayed.id}`));
+		assert.deepEqual(replayed.layers, result.layers);
+		assert.deepEqual(replayed.fromTags, result.fromTags);
+		assert.deepEqual(replayEvents, buildEvents);
+	});
+
+	it('should record failed builds to a stream and replay them', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/2 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 2/2 : RUN false\n' },
+			{ error: 'The command returned a non-zero code: 1' },
+		];
+		const sink = new Stream.PassThrough();
+		let output = '';
+		sink.on('data', (data: Buffer) => (output += data));
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { record: sink })
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error, BuildError);
+
+		const recording = parseRecording(output);
+		assert.deepEqual(
+			_.map(recording, 'message'),
+			mockBuilder.docker.daemonOutput,
+		);
+		const replayError = await replay(mockBuilder, recording, []).then(
+			() => {
+				throw new Error('The replay should fail');
+			},
+			(e: Error & { layers: string[] }) => e,
+		);
+		assert.equal(replayError.message, error.message);
+		assert.deepEqual(replayError.layers, error.layers);
+	});
+
+	it('should record the malformed output of the daemon and replay it', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const page = '<html><body><h1>502 Bad Gateway</h1></body></html>\n';
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/2 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			page,
+		];
+		const sink = new Stream.PassThrough();
+		let output = '';
+		sink.on('data', (data: Buffer) => (output += data));
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { record: sink })
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, DaemonOutputError);
+
+		const recording = parseRecording(output);
+		assert.deepEqual(_.map(recording, 'message'), [
+			{ stream: 'Step 1/2 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			undefined,
+		]);
+		assert.equal(_.last(recording)!.text, page);
+		const replayError = await replay(mockBuilder, recording, []).then(
+			() => {
+				throw new Error('The replay should fail');
+			},
+			(e: Error) => e,
+		);
+		assert.instanceOf(replayError, DaemonOutputError);
+		assert.equal(replayError.message, error.message);
+	});
+
+	it('should not contact the daemon when replaying', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const recording = sampleDaemonOutput.map((message, index) => ({
+			time: index,
+			message,
+		}));
+		await replay(mockBuilder, recording, []);
+		assert.isUndefined(mockBuilder.docker.buildOpts);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+});
+
+describe('Build report', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const daemonOutput: DaemonMessage[] = [
+		{ stream: 'Step 1/3 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/3 : RUN echo hello\n' },
+		{ stream: ' ---> Using cache\n' },
+		{ stream: ' ---> bbbbbbbbbbbb\n' },
+		{ stream: 'Step 3/3 : RUN false\n' },
+	];
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should report the steps of successful builds', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat([
+			{ stream: ' ---> cccccccccccc\n' },
+		]);
+		const result: BuildResult = await mockBuilder.build(tarStream());
+		assert.deepEqual(_.map(result.report.steps, 'command'), [
+			'FROM busybox',
+			'RUN echo hello',
+			'RUN false',
+		]);
+		assert.deepEqual(_.map(result.report.steps, 'cached'), [
+			false,
+			true,
+			false,
+		]);
+		assert.deepEqual(_.map(result.report.steps, 'layer'), [
+			'aaaaaaaaaaaa',
+			'bbbbbbbbbbbb',
+			'cccccccccccc',
+		]);
+		assert.equal(result.report.cachedSteps, 1);
+		assert.isAtMost(result.report.durationMs, result.durationMs);
+	});
+
+	it('should report the steps of failed builds to the hooks', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat([
+			{ error: 'The command returned a non-zero code: 1' },
+		]);
+		const report: BuildReport = await new Promise((resolve, reject) => {
+			const stream = mockBuilder.createBuildStream(
+				{},
+				{
+					buildSuccess: () => reject(new Error('The build should fail')),
+					buildFailure: (
+						_error: Error,
+						_layers: string[],
+						_fromTags: FromTagInfo[],
+						r: BuildReport,
+					) => resolve(r),
+				},
+			);
+			tarStream().pipe(stream);
+		});
+		assert.lengthOf(report.steps, 3);
+		assert.equal(report.steps[2].command, 'RUN false');
+		assert.isUndefined(report.steps[2].layer);
+	});
+});
+
+describe('Build cache', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const auth = {
+		registries: {
+			'myregistry:5000': { username: 'user', password: 'pass' },
+		},
+	};
+	const daemonOutput: DaemonMessage[] = [
+		{ stream: 'Step 1/3 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/3 : RUN echo hello\n' },
+		{ stream: ' ---> Using cache\n' },
+		{ stream: ' ---> bbbbbbbbbbbb\n' },
+		{ stream: 'Step 3/3 : COPY . /app\n' },
+		{ stream: ' ---> cccccccccccc\n' },
+	];
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should pull the cache sources and build with them', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		mockBuilder.docker.failingImages = ['myregistry:5000/app:missing'];
+		const result: BuildResult = await mockBuilder.build(tarStream(), {
+			buildOpts: { cachefrom: ['app:base'] },
+			cacheFrom: ['myregistry:5000/app:latest', 'myregistry:5000/app:missing'],
+		});
+		assert.deepEqual(mockBuilder.docker.pulledImages, [
+			{
+				image: 'myregistry:5000/app:latest',
+				authconfig: {
+					username: 'user',
+					password: 'pass',
+					serveraddress: 'myregistry:5000',
+				},
+			},
+			{
+				image: 'myregistry:5000/app:missing',
+				authconfig: {
+					username: 'user',
+					password: 'pass',
+					serveraddress: 'myregistry:5000',
+				},
+			},
+		]);
+		assert.deepEqual(mockBuilder.docker.buildOpts.cachefrom, [
+			'app:base',
+			'myregistry:5000/app:latest',
+			'myregistry:5000/app:missing',
+		]);
+		assert.deepEqual(_.keys(mockBuilder.docker.buildOpts.registryconfig), [
+			'myregistry:5000',
+		]);
+		assert.deepEqual(result.warnings, [
+			'Could not pull the cache source myregistry:5000/app:missing: ' +
+				'manifest for myregistry:5000/app:missing not found',
+		]);
+	});
+
+	it('should pull the latest tag of untagged cache sources', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({}, { auth });
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		await mockBuilder.build(tarStream(), {
+			cacheFrom: ['myregistry:5000/app', 'busybox'],
+		});
+		assert.deepEqual(_.map(mockBuilder.docker.pulledImages, 'image'), [
+			'myregistry:5000/app:latest',
+			'docker.io/library/busybox:latest',
+		]);
+		assert.equal(
+			mockBuilder.docker.pulledImages[0].authconfig.serveraddress,
+			'myregistry:5000',
+		);
+		assert.isUndefined(mockBuilder.docker.pulledImages[1].authconfig);
+	});
+
+	it('should report the cache hits and misses', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		const result: BuildResult = await mockBuilder.build(tarStream());
+		assert.deepEqual(result.report.cache, {
+			steps: { 2: 'hit', 3: 'miss' },
+			hits: 1,
+			misses: 1,
+			invalidatedBy: {
+				step: 3,
+				command: 'COPY . /app',
+				cause: 'the files copied from . changed',
+			},
+		});
+		assert.deepEqual(mockBuilder.docker.pulledImages, []);
+		assert.notProperty(mockBuilder.docker.buildOpts, 'cachefrom');
+	});
+
+	it('should not build with invalid cache sources', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), { cacheFrom: ['Invalid:ref'] })
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, ImageReferenceError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+});
+
+describe('Secrets', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const daemonOutput: DaemonMessage[] = [
+		{ stream: 'Step 1/2 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/2 : RUN echo $TOKEN && false\n' },
+		{ stream: 's3cr3t-t0ken\n' },
+		{ stream: '[Warning] key line two is insecure\n' },
+		{ error: 'exit code 1, token s3cr3t-t0ken' },
+	];
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = makeTmpDir();
+	});
+
+	afterEach(() => removeDirectory(tmpDir));
+
+	it('should redact secrets from the output, events and errors', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput;
+		const keyPath = path.join(tmpDir, 'key');
+		fs.writeFileSync(keyPath, 'key line one\nkey line two\n');
+		const recordingPath = path.join(tmpDir, 'build.log');
+		const events: BuildEvent[] = [];
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), {
+				buildOpts: { buildargs: { VERSION: '1' } },
+				secrets: {
+					buildargs: { TOKEN: 's3cr3t-t0ken' },
+					valueFiles: { key: keyPath },
+				},
+				record: recordingPath,
+				onEvent: (event: BuildEvent) => events.push(event),
+			})
+			.catch((e: BuildError) => e);
+
+		assert.deepEqual(mockBuilder.docker.buildOpts.buildargs, {
+			VERSION: '1',
+			TOKEN: 's3cr3t-t0ken',
+		});
+		assert.equal(error.message, 'exit code 1, token ***');
+		assert.equal(error.cause.message, 'exit code 1, token ***');
+		assert.notInclude(error.cause.stack || '', 's3cr3t');
+		assert.deepEqual(error.warnings, ['*** is insecure']);
+		assert.notInclude(error.log, 's3cr3t');
+		assert.include(error.log, '***\n');
+		assert.notInclude(JSON.stringify(events), 's3cr3t');
+		assert.deepEqual(_.last(events), {
+			type: 'error',
+			message: 'exit code 1, token ***',
+		});
+		assert.notInclude(fs.readFileSync(recordingPath, 'utf8'), 's3cr3t');
+	});
+
+	it('should redact secrets from the recorded BuildKit traces', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = sampleBuildKitOutput;
+		const sink = new Stream.PassThrough();
+		let output = '';
+		sink.on('data', (data: Buffer) => (output += data));
+		await mockBuilder.build(tarStream(), {
+			buildOpts: { version: '2' },
+			// The build runs `echo hello`
+			secrets: { values: ['hello'] },
+			record: sink,
+		});
+		const traceMessages = (messages: Array<DaemonMessage | undefined>) =>
+			_.filter(messages, { id: 'moby.buildkit.trace' }) as DaemonMessage[];
+		const traces = traceMessages(
+			_.map(parseRecording(output), 'message'),
+		).map(message => decodeTrace(message.aux));
+		const names = _.flatMap(traces, trace => _.map(trace.vertexes, 'name'));
+		const logs = _.flatMap(traces, trace =>
+			trace.logs.map(log => log.msg.toString()),
+		);
+		assert.include(names, '[2/2] RUN echo ***');
+		assert.deepEqual(logs, ['***\n']);
+		assert.notInclude(JSON.stringify(names.concat(logs)), 'hello');
+		// The other fields are kept
+		assert.deepEqual(
+			_.flatMap(traces, trace => _.map(trace.vertexes, 'digest')),
+			_.flatMap(traceMessages(sampleBuildKitOutput), ({ aux }) =>
+				_.map(decodeTrace(aux).vertexes, 'digest'),
+			),
+		);
+	});
+
+	it('should not build if a secret cannot be read', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const error: BuildError = await mockBuilder
+			.build(tarStream(), {
+				secrets: { valueFiles: { key: path.join(tmpDir, 'missing') } },
+			})
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, SecretError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should substitute secret build args in the FROM instructions', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		fs.writeFileSync(
+			path.join(tmpDir, 'Dockerfile'),
+			'ARG BASE\nFROM ${BASE}\n',
+		);
+		const result: BuildResult = await mockBuilder.build(tmpDir, {
+			secrets: { buildargs: { BASE: 'alpine' } },
+		});
+		assert.isString(result.imageId);
+		assert.deepEqual(mockBuilder.docker.buildOpts.buildargs, {
+			BASE: 'alpine',
+		});
+	});
+});
+
+describe('Daemon output', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should fail builds with a DaemonBuildError and its code', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = [
+			{ stream: 'Step 1/2 : FROM busybox\n' },
+			{ stream: ' ---> aaaaaaaaaaaa\n' },
+			{ stream: 'Step 2/2 : RUN exit 2\n' },
+			{
+				errorDetail: { code: 2, message: 'returned a non-zero code: 2' },
+				error: 'returned a non-zero code: 2',
+			},
+		];
+		const error: BuildError = await mockBuilder
+			.build(tarStream())
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, DaemonBuildError);
+		assert.equal((error.cause as DaemonBuildError).code, 2);
+		assert.deepEqual(error.layers, ['aaaaaaaaaaaa']);
+	});
+});
+
+describe('Build errors', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	it('should fail with a DaemonRequestError if the daemon cannot be reached', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.requestError = Object.assign(
+			new Error('connect ECONNREFUSED 127.0.0.1:2375'),
+			{ code: 'ECONNREFUSED' },
+		);
+		const error: BuildError = await mockBuilder
+			.build(tarStream())
+			.catch((e: BuildError) => e);
+		assert.instanceOf(error.cause, DaemonRequestError);
+		assert.equal((error.cause as DaemonRequestError).errno, 'ECONNREFUSED');
+		assert.equal(
+			(error.cause as DaemonRequestError).cause,
+			mockBuilder.docker.requestError,
+		);
+	});
+
+	it('should fail with a HookError if a hook fails', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const hookError = new Error('display failed');
+		const handled: Error[] = [];
+		const error: Error = await new Promise(resolve => {
+			const stream = mockBuilder.createBuildStream(
+				{},
+				{
+					buildEvent: () => {
+						throw hookError;
+					},
+					buildFailure: resolve,
+				},
+				(e: Error) => handled.push(e),
+			);
+			stream.resume();
+			tarStream().pipe(stream);
+		});
+		assert.instanceOf(error, HookError);
+		assert.equal((error as HookError).hook, 'buildEvent');
+		assert.equal((error as HookError).cause, hookError);
+		assert.equal(error.message, 'The buildEvent hook failed: display failed');
+		// The error handler is called with the error of the hook
+		assert.equal(handled[0], hookError);
+	});
+});
+
+describe('Hook lifecycle', function() {
+	const builderMod = rewire('../src/builder');
+	builderMod.__set__({ Dockerode: MockDockerode });
+	const MockBuilder = builderMod.__get__('Builder');
+
+	const daemonOutput: DaemonMessage[] = [
+		{ stream: 'Step 1/2 : FROM busybox\n' },
+		{ stream: ' ---> aaaaaaaaaaaa\n' },
+		{ stream: 'Step 2/2 : RUN echo hello\n' },
+		{ stream: 'hello\n' },
+	];
+
+	const tarStream = () => {
+		const stream = new Stream.PassThrough();
+		stream.end(Buffer.alloc(1024));
+		return stream;
+	};
+
+	// Start a build, recording the calls of the hooks, and wait for the
+	// buildEnd hook
+	const runBuild = (
+		mockBuilder: any,
+		hooks: BuildHooks = {},
+		handler: (error: Error) => void = _.noop,
+	) => {
+		const calls: string[] = [];
+		const done: Promise<BuildEndInfo> = new Promise(resolve => {
+			const stream = mockBuilder.createBuildStream(
+				{},
+				{
+					...hooks,
+					preBuild: (context: PreBuildContext) => {
+						calls.push('preBuild');
+						if (hooks.preBuild) {
+							return hooks.preBuild(context);
+						}
+					},
+					stepStart: (step: StepStartEvent) => {
+						calls.push(`stepStart ${step.command}`);
+						if (hooks.stepStart) {
+							return hooks.stepStart(step);
+						}
+					},
+					stepComplete: (step: StepReport) => {
+						calls.push(`stepComplete ${step.command}`);
+						if (hooks.stepComplete) {
+							return hooks.stepComplete(step);
+						}
+					},
+					buildSuccess: () => {
+						calls.push('buildSuccess');
+					},
+					buildFailure: () => {
+						calls.push('buildFailure');
+					},
+					buildEnd: (info: BuildEndInfo) => {
+						calls.push('buildEnd');
+						resolve(info);
+					},
+				},
+				handler,
+			);
+			stream.resume();
+			tarStream().pipe(stream);
+		});
+		return done.then(info => ({ calls, info }));
+	};
+
+	it('should call the hooks in order for successful builds', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat([
+			{ stream: ' ---> bbbbbbbbbbbb\n' },
+		]);
+		const completed: StepReport[] = [];
+		const { calls, info } = await runBuild(mockBuilder, {
+			// Slow step hooks delay the outcome of the build
+			stepComplete: step =>
+				new Promise(resolve => setTimeout(resolve, 10)).then(() => {
+					completed.push(step);
+				}),
+		});
+		assert.deepEqual(calls, [
+			'preBuild',
+			'stepStart FROM busybox',
+			'stepComplete FROM busybox',
+			'stepStart RUN echo hello',
+			'stepComplete RUN echo hello',
+			'buildSuccess',
+			'buildEnd',
+		]);
+		assert.deepEqual(_.map(completed, 'layer'), [
+			'aaaaaaaaaaaa',
+			'bbbbbbbbbbbb',
+		]);
+		assert.equal(completed[1].outputBytes, 6);
+		assert.isTrue(info.success);
+		assert.equal(info.imageId, `sha256:${_.padEnd('bbbbbbbbbbbb', 64, '0')}`);
+		assert.deepEqual(info.layers, ['aaaaaaaaaaaa', 'bbbbbbbbbbbb']);
+		assert.lengthOf(info.report.steps, 2);
+	});
+
+	it('should not complete the step that failed a build', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat([
+			{ error: 'The command returned a non-zero code: 1' },
+		]);
+		const { calls, info } = await runBuild(mockBuilder);
+		assert.deepEqual(calls, [
+			'preBuild',
+			'stepStart FROM busybox',
+			'stepComplete FROM busybox',
+			'stepStart RUN echo hello',
+			'buildFailure',
+			'buildEnd',
+		]);
+		assert.isFalse(info.success);
+		assert.instanceOf(info.error, DaemonBuildError);
+		assert.lengthOf(info.report.steps, 2);
+	});
+
+	it('should let the preBuild hook change the options and the context', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const buildOpts = { t: 'image:1.0' };
+		await new Promise((resolve, reject) => {
+			const stream = mockBuilder.createBuildStream(buildOpts, {
+				preBuild: (context: PreBuildContext) =>
+					Promise.resolve().then(() => {
+						context.buildOpts.labels = { ci: 'true' };
+						context.addFile('VERSION', '1.0\n');
+					}),
+				buildSuccess: resolve,
+				buildFailure: reject,
+			});
+			stream.resume();
+			tarStream().pipe(stream);
+		});
+		assert.deepEqual(mockBuilder.docker.buildOpts.labels, { ci: 'true' });
+		// The options of the caller are left alone
+		assert.deepEqual(buildOpts, { t: 'image:1.0' });
+		assert.include(mockBuilder.docker.context.toString(), 'VERSION');
+		assert.include(mockBuilder.docker.context.toString(), '1.0\n');
+	});
+
+	it('should read the Dockerfile that the preBuild hook chose', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts(
+			{},
+			{
+				auth: {
+					registries: {
+						'myregistry:5000': { username: 'user', password: 'pass' },
+					},
+				},
+			},
+		);
+		const tmpDir = makeTmpDir();
+		fs.writeFileSync(path.join(tmpDir, 'Dockerfile'), 'FROM busybox\n');
+		fs.writeFileSync(
+			path.join(tmpDir, 'Dockerfile.prod'),
+			'FROM myregistry:5000/app:1\n',
+		);
+		fs.writeFileSync(path.join(tmpDir, '.dockerignore'), 'Dockerfile.prod\n');
+		try {
+			await new Promise((resolve, reject) => {
+				mockBuilder
+					.buildDir(
+						tmpDir,
+						{},
+						{
+							preBuild: (context: PreBuildContext) => {
+								context.buildOpts.dockerfile = 'Dockerfile.prod';
+							},
+							buildStream: (stream: NodeJS.ReadWriteStream) => stream.resume(),
+							buildSuccess: resolve,
+							buildFailure: reject,
+						},
+					)
+					.catch(reject);
+			});
+		} finally {
+			removeDirectory(tmpDir);
+		}
+		assert.equal(mockBuilder.docker.buildOpts.dockerfile, 'Dockerfile.prod');
+		// The Dockerfile is kept in the build context, although it is ignored
+		assert.include(
+			mockBuilder.docker.context.toString(),
+			'myregistry:5000/app',
+		);
+		assert.deepEqual(_.keys(mockBuilder.docker.buildOpts.registryconfig), [
+			'myregistry:5000',
+		]);
+	});
+
+	it('should fail the build with a HookError if the preBuild hook fails', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const hookError = new Error('no config');
+		const handled: Error[] = [];
+		const { calls, info } = await runBuild(
+			mockBuilder,
+			{
+				preBuild: () => {
+					throw hookError;
+				},
+			},
+			(e: Error) => handled.push(e),
+		);
+		assert.deepEqual(calls, ['preBuild', 'buildFailure', 'buildEnd']);
+		assert.instanceOf(info.error, HookError);
+		assert.equal((info.error as HookError).hook, 'preBuild');
+		assert.deepEqual(handled, [hookError]);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should validate the options changed by the preBuild hook', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const { info } = await runBuild(mockBuilder, {
+			preBuild: (context: PreBuildContext) => {
+				context.buildOpts.buildargs = { PORT: 80 as any };
+			},
+		});
+		assert.instanceOf(info.error, BuildOptionsError);
+		assert.isUndefined(mockBuilder.docker.buildImagePromise);
+	});
+
+	it('should fail the build with a HookError if a step hook fails', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		mockBuilder.docker.daemonOutput = daemonOutput.concat([
+			{ stream: ' ---> bbbbbbbbbbbb\n' },
+		]);
+		const { calls, info } = await runBuild(mockBuilder, {
+			stepComplete: step =>
+				step.step === 2 ? Promise.reject(new Error('no metrics')) : undefined,
+		});
+		assert.include(calls, 'buildFailure');
+		assert.notInclude(calls, 'buildSuccess');
+		assert.equal(_.last(calls), 'buildEnd');
+		assert.instanceOf(info.error, HookError);
+		assert.equal((info.error as HookError).hook, 'stepComplete');
+		assert.isFalse(info.success);
+	});
+
+	it('should only pass the errors of the buildEnd hook to the handler', async () => {
+		const mockBuilder = MockBuilder.fromDockerOpts({});
+		const hookError = new Error('cleanup failed');
+		const calls: string[] = [];
+		const handled: Error = await new Promise(resolve => {
+			const stream = mockBuilder.createBuildStream(
+				{},
+				{
+					buildSuccess: () => {
+						calls.push('buildSuccess');
+					},
+					buildFailure: () => {
+						calls.push('buildFailure');
+					},
+					buildEnd: () => {
+						throw hookError;
+					},
+				},
+				resolve,
+			);
+			stream.resume();
+			tarStream().pipe(stream);
+		});
+		assert.equal(handled, hookError);
+		assert.deepEqual(calls, ['buildSuccess']);
+	});
+});
@@ -1,20 +1,31 @@
 import { expect } from 'chai';
-import { extractFromTag } from '../src/utils';
+import { extractFromTag, FromTagInfo } from '../src/utils';
+
+const digest = `sha256:${'0123456789abcdef'.repeat(4)}`;
 
 describe('utils', () => {
 	it('can extract FROM statements', () => {
 		expect(extractFromTag('FROM ubuntu:18.04')).to.deep.equal({
 			repo: 'ubuntu',
 			tag: '18.04',
+			registry: 'docker.io',
+			namespace: 'library',
+			reference: 'docker.io/library/ubuntu:18.04',
 		});
 		expect(extractFromTag('Step 1/28 : FROM ubuntu')).to.deep.equal({
 			repo: 'ubuntu',
 			tag: 'latest',
+			registry: 'docker.io',
+			namespace: 'library',
+			reference: 'docker.io/library/ubuntu:latest',
 		});
 		expect(extractFromTag('something different')).to.be.equal(undefined);
 		expect(extractFromTag('Step 1/28 : FROM ubuntu as base')).to.deep.equal({
 			repo: 'ubuntu',
 			tag: 'latest',
+			registry: 'docker.io',
+			namespace: 'library',
+			reference: 'docker.io/library/ubuntu:latest',
 			alias: 'base',
 		});
 		expect(
@@ -22,7 +33,143 @@ describe('utils', () => {
 		).to.deep.equal({
 			repo: 'some/image-name',
 			tag: '1.2.3-tag',
+			registry: 'docker.io',
+			namespace: 'some',
+			reference: 'docker.io/some/image-name:1.2.3-tag',
 			alias: 'my-name',
 		});
 	});
+
+	describe('FROM image references', () => {
+		// The FROM statement, and the expected reference; the fields that are
+		// not given are expected to be undefined
+		const table: Array<[string, Partial<FromTagInfo> | undefined]> = [
+			[
+				'FROM alpine',
+				{
+					repo: 'alpine',
+					tag: 'latest',
+					registry: 'docker.io',
+					namespace: 'library',
+					reference: 'docker.io/library/alpine:latest',
+				},
+			],
+			[
+				'FROM docker.io/library/alpine',
+				{
+					repo: 'docker.io/library/alpine',
+					tag: 'latest',
+					registry: 'docker.io',
+					namespace: 'library',
+					reference: 'docker.io/library/alpine:latest',
+				},
+			],
+			[
+				'FROM index.docker.io/balena/app:v1',
+				{
+					repo: 'index.docker.io/balena/app',
+					tag: 'v1',
+					registry: 'docker.io',
+					namespace: 'balena',
+					reference: 'docker.io/balena/app:v1',
+				},
+			],
+			[
+				'FROM myregistry:5000/org/img:1.0',
+				{
+					repo: 'myregistry:5000/org/img',
+					tag: '1.0',
+					registry: 'myregistry:5000',
+					namespace: 'org',
+					reference: 'myregistry:5000/org/img:1.0',
+				},
+			],
+			[
+				'FROM myregistry:5000/img',
+				{
+					repo: 'myregistry:5000/img',
+					tag: 'latest',
+					registry: 'myregistry:5000',
+					reference: 'myregistry:5000/img:latest',
+				},
+			],
+			[
+				'FROM localhost/img:1',
+				{
+					repo: 'localhost/img',
+					tag: '1',
+					registry: 'localhost',
+					reference: 'localhost/img:1',
+				},
+			],
+			[
+				'FROM [::1]:5000/img',
+				{
+					repo: '[::1]:5000/img',
+					tag: 'latest',
+					registry: '[::1]:5000',
+					reference: '[::1]:5000/img:latest',
+				},
+			],
+			[
+				'FROM quay.io/org/team/img:2',
+				{
+					repo: 'quay.io/org/team/img',
+					tag: '2',
+					registry: 'quay.io',
+					namespace: 'org/team',
+					reference: 'quay.io/org/team/img:2',
+				},
+			],
+			[
+				`FROM img@${digest}`,
+				{
+					repo: 'img',
+					tag: '',
+					registry: 'docker.io',
+					namespace: 'library',
+					digest,
+					reference: `docker.io/library/img@${digest}`,
+				},
+			],
+			[
+				`FROM myregistry:5000/img:1.0@${digest} AS build`,
+				{
+					repo: 'myregistry:5000/img',
+					tag: '1.0',
+					registry: 'myregistry:5000',
+					digest,
+					reference: `myregistry:5000/img:1.0@${digest}`,
+					alias: 'build',
+				},
+			],
+			[
+				'Step 2/5 : FROM --platform=linux/arm64 balena/app AS runtime',
+				{
+					repo: 'balena/app',
+					tag: 'latest',
+					registry: 'docker.io',
+					namespace: 'balena',
+					platform: 'linux/arm64',
+					reference: 'docker.io/balena/app:latest',
+					alias: 'runtime',
+				},
+			],
+			[
+				'[2/3] FROM docker.io/library/node:12-alpine',
+				undefined, // The BuildKit prefix is removed by the builder
+			],
+			['FROM Ubuntu', undefined],
+			['FROM ubuntu:', undefined],
+			['FROM img@sha256:abc', undefined],
+			['FROM', undefined],
+			['RUN echo FROM ubuntu', undefined],
+		];
+
+		for (const [statement, expected] of table) {
+			it(`parses "${statement}"`, () => {
+				expect(extractFromTag(statement)).to.deep.equal(expected);
+			});
+		}
+	});
 });